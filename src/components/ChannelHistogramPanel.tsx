@@ -0,0 +1,169 @@
+import { useMemo, useState } from "react";
+import { Area, AreaChart, XAxis, YAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ChartConfig, ChartContainer } from "@/components/ui/chart";
+import { ConversionSettings, defaultConversionSettings } from "@/utils/colorConversions";
+import { ColorModel } from "@/utils/colorSpaces";
+import { ChannelHistogram, HistogramSeries, channelHistograms } from "@/utils/histogram";
+import type { WorkspaceFrame } from "@/components/ImageWorkspace";
+import { BarChart3 } from "lucide-react";
+
+interface ChannelHistogramPanelProps {
+  frame: WorkspaceFrame | null;
+  selectedModel: ColorModel;
+  conversionSettings?: ConversionSettings;
+}
+
+type HistogramLayout = 'overlay' | 'stacked';
+
+const BIN_COUNT = 64;
+
+const swatchColor = (histogram: ChannelHistogram) => `hsl(var(--${histogram.channel.swatch}))`;
+
+const percent = (count: number, samples: number) => `${(count / samples * 100).toFixed(1)}%`;
+
+// "low 0.4% · high 2.1%", or nothing for hues and unbounded channels
+const describeClipping = (series: HistogramSeries, samples: number) => [
+  series.low !== null ? `low ${percent(series.low, samples)}` : null,
+  series.high !== null ? `high ${percent(series.high, samples)}` : null,
+].filter(Boolean).join(' · ');
+
+export function ChannelHistogramPanel({ frame, selectedModel, conversionSettings = defaultConversionSettings }: ChannelHistogramPanelProps) {
+  const [layout, setLayout] = useState<HistogramLayout>('overlay');
+  const [logScale, setLogScale] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(true);
+
+  // The adjusted image is the same object as the original when no slider is moved
+  const histogram = useMemo(() => {
+    if (!frame) return null;
+    const images = frame.adjusted === frame.original ? [frame.original] : [frame.original, frame.adjusted];
+    return channelHistograms(images, selectedModel, conversionSettings, BIN_COUNT);
+  }, [frame, selectedModel, conversionSettings]);
+
+  if (!histogram || histogram.channels.length === 0) return null;
+
+  const adjustedIndex = histogram.channels[0].series.length - 1;
+  const scale = (count: number) => (logScale ? Math.log10(1 + count) : count);
+
+  const config: ChartConfig = Object.fromEntries(histogram.channels.flatMap((channel) => [
+    [channel.channel.key, { label: channel.channel.label, color: swatchColor(channel) }],
+    [`${channel.channel.key}Original`, { label: `${channel.channel.label} (original)`, color: swatchColor(channel) }],
+  ]));
+
+  // One row per bin; overlay mode plots every channel against the position in its own range
+  const rowsFor = (channels: ChannelHistogram[]) =>
+    Array.from({ length: BIN_COUNT }, (_, bin) => {
+      const row: Record<string, number> = { bin };
+      for (const { channel, series } of channels) {
+        row[channel.key] = scale(series[adjustedIndex].counts[bin]);
+        row[`${channel.key}Original`] = scale(series[0].counts[bin]);
+      }
+      return row;
+    });
+
+  const renderAreas = (channels: ChannelHistogram[]) => channels.flatMap(({ channel }) => [
+    showOriginal && adjustedIndex > 0 && (
+      <Area
+        key={`${channel.key}Original`}
+        dataKey={`${channel.key}Original`}
+        type="step"
+        stroke={`var(--color-${channel.key}Original)`}
+        strokeDasharray="3 3"
+        fill="none"
+        isAnimationActive={false}
+      />
+    ),
+    <Area
+      key={channel.key}
+      dataKey={channel.key}
+      type="step"
+      stroke={`var(--color-${channel.key})`}
+      fill={`var(--color-${channel.key})`}
+      fillOpacity={0.25}
+      isAnimationActive={false}
+    />,
+  ]);
+
+  const formatBin = (channel: ChannelHistogram | null) => (bin: number) => {
+    if (!channel) return `${Math.round(bin / BIN_COUNT * 100)}%`;
+    const value = channel.min + (bin / BIN_COUNT) * (channel.max - channel.min);
+    return `${Number(value.toPrecision(3))}${channel.channel.unit ?? ''}`;
+  };
+
+  const renderChart = (channels: ChannelHistogram[], className: string, single: ChannelHistogram | null) => (
+    <ChartContainer config={config} className={`aspect-auto w-full ${className}`}>
+      <AreaChart data={rowsFor(channels)} margin={{ top: 4, right: 4, bottom: 0, left: 4 }}>
+        <XAxis dataKey="bin" tickLine={false} axisLine={false} tickFormatter={formatBin(single)} minTickGap={24} />
+        <YAxis hide domain={[0, 'auto']} />
+        {renderAreas(channels)}
+      </AreaChart>
+    </ChartContainer>
+  );
+
+  return (
+    <Card className="mt-4 p-4 bg-card border-border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-4 h-4 text-primary" />
+          <h3 className="font-medium">{selectedModel} Histogram</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={layout}
+            onValueChange={(value) => value && setLayout(value as HistogramLayout)}
+          >
+            <ToggleGroupItem value="overlay" className="h-7 px-2 text-xs">Overlay</ToggleGroupItem>
+            <ToggleGroupItem value="stacked" className="h-7 px-2 text-xs">Stacked</ToggleGroupItem>
+          </ToggleGroup>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={logScale} onCheckedChange={setLogScale} />
+            Log
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={showOriginal} onCheckedChange={setShowOriginal} />
+            Original
+          </label>
+        </div>
+      </div>
+
+      {layout === 'overlay' ? (
+        renderChart(histogram.channels, 'h-40', histogram.channels.length === 1 ? histogram.channels[0] : null)
+      ) : (
+        <div className="space-y-3">
+          {histogram.channels.map((channel) => (
+            <div key={channel.channel.key}>
+              <div className="text-xs font-medium" style={{ color: swatchColor(channel) }}>{channel.channel.label}</div>
+              {renderChart([channel], 'h-20', channel)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 grid gap-1">
+        {histogram.channels.map((channel) => {
+          const adjusted = describeClipping(channel.series[adjustedIndex], histogram.samples);
+          if (!adjusted) return null;
+          const original = adjustedIndex > 0 ? describeClipping(channel.series[0], histogram.samples) : '';
+          return (
+            <div key={channel.channel.key} className="grid grid-cols-[8rem_1fr] gap-2 text-xs">
+              <span className="text-muted-foreground truncate">{channel.channel.label}</span>
+              <span className="font-mono">
+                Clipped {adjusted}{original && original !== adjusted ? ` (original ${original})` : ''}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        {layout === 'overlay' && histogram.channels.length > 1 ? 'Each channel spans its own range. ' : ''}
+        {adjustedIndex > 0 && showOriginal ? 'Dashed lines show the original image. ' : ''}
+        {histogram.samples.toLocaleString()} pixels sampled.
+      </p>
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { RGB_SPACES, WHITE_POINT_CHROMATICITIES } from "@/utils/colorConversions";
+import {
+  ChromaticityDiagram,
+  DIAGRAM_EXTENT,
+  DiagramPoint,
+  chromaticityPlot,
+  gamutTriangle,
+  pixelsNearChromaticity,
+  planckianChromaticity,
+  planckianLocus,
+  renderChromaticityPlot,
+  spectralLocus,
+  xyToDiagram,
+} from "@/utils/chromaticity";
+import type { WorkspaceFrame } from "@/components/ImageWorkspace";
+import { Triangle } from "lucide-react";
+
+interface ChromaticityDiagramPanelProps {
+  frame: WorkspaceFrame | null;
+  // Called with the pixels around the clicked chromaticity, or null when nothing is selected
+  onHighlight?: (mask: Uint8Array | null) => void;
+}
+
+const GRID_SIZE = 256;
+
+// Distance from the clicked point that still counts as the same cluster
+const SELECTION_RADIUS: Record<ChromaticityDiagram, number> = {
+  xy: 0.015,
+  uv: 0.01
+};
+
+const GAMUTS = [
+  { id: 'srgb', color: 'rgb(255 255 255)' },
+  { id: 'display-p3', color: 'rgb(255 190 60)' },
+  { id: 'rec2020', color: 'rgb(80 200 255)' },
+];
+
+const LABELLED_WAVELENGTHS = [460, 480, 490, 500, 510, 520, 540, 560, 580, 600, 620, 700];
+
+const LABELLED_TEMPERATURES = [2000, 3000, 4000, 6500, 10000];
+
+const pathOf = (points: DiagramPoint[], extent: number, close = false) =>
+  points.map((point, index) => `${index ? 'L' : 'M'}${point.x},${extent - point.y}`).join(' ') + (close ? ' Z' : '');
+
+export function ChromaticityDiagramPanel({ frame, onHighlight }: ChromaticityDiagramPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [diagram, setDiagram] = useState<ChromaticityDiagram>('xy');
+  const [selection, setSelection] = useState<DiagramPoint | null>(null);
+
+  const plot = useMemo(() => (frame ? chromaticityPlot(frame.adjusted, diagram, GRID_SIZE) : null), [frame, diagram]);
+  const match = useMemo(
+    () => (plot && selection ? pixelsNearChromaticity(plot, selection, SELECTION_RADIUS[diagram]) : null),
+    [plot, selection, diagram]
+  );
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !plot) return;
+    ctx.putImageData(renderChromaticityPlot(plot), 0, 0);
+  }, [plot]);
+
+  useEffect(() => {
+    onHighlight?.(match?.mask ?? null);
+  }, [match, onHighlight]);
+
+  if (!plot) return null;
+
+  const extent = DIAGRAM_EXTENT[diagram];
+  const locus = spectralLocus(diagram);
+  const white = xyToDiagram(WHITE_POINT_CHROMATICITIES.D65, diagram);
+  const unit = extent / 100;
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setSelection({
+      x: (e.clientX - rect.left) / rect.width * extent,
+      y: (1 - (e.clientY - rect.top) / rect.height) * extent,
+    });
+  };
+
+  const axes = diagram === 'xy' ? ['x', 'y'] : ["u'", "v'"];
+  const pixelCount = plot.points.length / 2;
+
+  return (
+    <Card className="mt-4 p-4 bg-card border-border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <Triangle className="w-4 h-4 text-primary" />
+          <h3 className="font-medium">Chromaticity Diagram</h3>
+        </div>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={diagram}
+          onValueChange={(value) => {
+            if (!value) return;
+            setDiagram(value as ChromaticityDiagram);
+            setSelection(null);
+          }}
+        >
+          <ToggleGroupItem value="xy" className="h-7 px-2 text-xs">CIE 1931 xy</ToggleGroupItem>
+          <ToggleGroupItem value="uv" className="h-7 px-2 text-xs">CIE 1976 u'v'</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="relative mx-auto w-full max-w-sm aspect-square rounded-md bg-black overflow-hidden">
+        <canvas ref={canvasRef} width={GRID_SIZE} height={GRID_SIZE} className="absolute inset-0 w-full h-full" />
+        {/* Diagram units on both axes with the origin at the bottom left */}
+        <svg
+          viewBox={`0 0 ${extent} ${extent}`}
+          className="absolute inset-0 w-full h-full cursor-crosshair"
+          onClick={handleClick}
+        >
+          <path d={pathOf(locus, extent, true)} fill="rgba(255,255,255,0.04)" stroke="rgba(255,255,255,0.7)" strokeWidth={unit * 0.3} />
+          {locus.filter((point) => LABELLED_WAVELENGTHS.includes(point.wavelength)).map((point) => {
+            // Push the label away from the white point
+            const dx = point.x - white.x;
+            const dy = point.y - white.y;
+            const length = Math.hypot(dx, dy) || 1;
+            return (
+              <text
+                key={point.wavelength}
+                x={point.x + dx / length * unit * 4}
+                y={extent - point.y - dy / length * unit * 4}
+                fill="rgba(255,255,255,0.6)"
+                fontSize={unit * 2.6}
+                textAnchor="middle"
+                dominantBaseline="middle"
+              >
+                {point.wavelength}
+              </text>
+            );
+          })}
+
+          {GAMUTS.map(({ id, color }) => {
+            const space = RGB_SPACES.find((candidate) => candidate.id === id);
+            return space && (
+              <path key={id} d={pathOf(gamutTriangle(space, diagram), extent, true)} fill="none" stroke={color} strokeWidth={unit * 0.3} />
+            );
+          })}
+
+          <path d={pathOf(planckianLocus(diagram), extent)} fill="none" stroke="rgb(255 140 80)" strokeWidth={unit * 0.3} />
+          {LABELLED_TEMPERATURES.map((temperature) => {
+            const point = xyToDiagram(planckianChromaticity(temperature), diagram);
+            return (
+              <g key={temperature}>
+                <circle cx={point.x} cy={extent - point.y} r={unit * 0.6} fill="rgb(255 140 80)" />
+                <text x={point.x} y={extent - point.y + unit * 3} fill="rgb(255 140 80)" fontSize={unit * 2.2} textAnchor="middle">
+                  {temperature}K
+                </text>
+              </g>
+            );
+          })}
+
+          {selection && (
+            <circle
+              cx={selection.x}
+              cy={extent - selection.y}
+              r={SELECTION_RADIUS[diagram]}
+              fill="none"
+              stroke="white"
+              strokeWidth={unit * 0.4}
+              strokeDasharray={`${unit} ${unit * 0.6}`}
+            />
+          )}
+          <text x={extent - unit * 2} y={extent - unit * 2} fill="rgba(255,255,255,0.5)" fontSize={unit * 3} textAnchor="end">{axes[0]}</text>
+          <text x={unit * 2} y={unit * 4} fill="rgba(255,255,255,0.5)" fontSize={unit * 3}>{axes[1]}</text>
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 mt-3 text-xs">
+        {GAMUTS.map(({ id, color }) => (
+          <span key={id} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: color }} />
+            {RGB_SPACES.find((space) => space.id === id)?.name}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5" style={{ backgroundColor: 'rgb(255 140 80)' }} />
+          Planckian locus
+        </span>
+      </div>
+
+      {selection && match ? (
+        <div className="flex items-center justify-between gap-2 mt-3 text-xs">
+          <span>
+            {match.count.toLocaleString()} pixels ({(match.count / pixelCount * 100).toFixed(1)}%) near
+            {' '}<span className="font-mono">{axes[0]} {selection.x.toFixed(3)}, {axes[1]} {selection.y.toFixed(3)}</span>
+            {' '}are highlighted in the workspace.
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setSelection(null)}>
+            Clear
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground mt-3">
+          Click a cluster to highlight its pixels in the workspace. Black pixels have no chromaticity and are not plotted.
+        </p>
+      )}
+    </Card>
+  );
+}
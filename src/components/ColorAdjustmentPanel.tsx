@@ -1,44 +1,71 @@
 import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
-import { ColorModel, RGBColor, HSVColor, CMYKColor, LABColor, YUVColor } from "@/utils/colorConversions";
+import { Input } from "@/components/ui/input";
+import { ConversionSettings, defaultConversionSettings } from "@/utils/colorConversions";
+import { ColorAdjustments, ColorModel, ColorSpaceDefinition, createDefaultAdjustments, getChannels, getColorSpace } from "@/utils/colorSpaces";
+import { Color, ColorSpaceId } from "@/utils/color";
+import { themeTextClasses } from "@/lib/utils";
 import { Palette, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 interface ColorAdjustmentPanelProps {
   selectedModel: ColorModel;
   onAdjustmentChange: (adjustments: ColorAdjustments) => void;
+  conversionSettings?: ConversionSettings;
 }
 
-export interface ColorAdjustments {
-  rgb?: Partial<RGBColor>;
-  hsv?: Partial<HSVColor>;
-  cmyk?: Partial<CMYKColor>;
-  lab?: Partial<LABColor>;
-  yuv?: Partial<YUVColor>;
+interface NotationSwatchProps {
+  space: ColorSpaceDefinition;
+  notation: NonNullable<ColorSpaceDefinition['notation']>;
+  conversionSettings: ConversionSettings;
 }
 
-const defaultAdjustments: ColorAdjustments = {
-  rgb: { r: 0, g: 0, b: 0 },
-  hsv: { h: 0, s: 0, v: 0 },
-  cmyk: { c: 0, m: 0, y: 0, k: 0 },
-  lab: { l: 0, a: 0, b: 0 },
-  yuv: { y: 0, u: 0, v: 0 }
-};
+// Typed notation (e.g. Munsell) with a swatch of the color it specifies
+function NotationSwatch({ space, notation, conversionSettings }: NotationSwatchProps) {
+  const [text, setText] = useState(notation.example);
+  const color = Color.fromNotation(space.id as ColorSpaceId, text, conversionSettings);
+  const rgb = color?.toRgb();
 
-export function ColorAdjustmentPanel({ selectedModel, onAdjustmentChange }: ColorAdjustmentPanelProps) {
-  const [adjustments, setAdjustments] = useState<ColorAdjustments>(defaultAdjustments);
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-foreground">{space.label} Notation</label>
+      <div className="flex items-center gap-3">
+        <Input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={notation.example}
+          className="bg-card border-border"
+        />
+        <div
+          className="w-10 h-10 shrink-0 rounded-md border border-border"
+          style={{ backgroundColor: rgb ? `rgb(${Math.round(rgb.r)}, ${Math.round(rgb.g)}, ${Math.round(rgb.b)})` : 'transparent' }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {color && rgb
+          ? `RGB(${Math.round(rgb.r)}, ${Math.round(rgb.g)}, ${Math.round(rgb.b)})${color.inGamut() ? '' : ' - clipped, outside sRGB'}`
+          : notation.hint}
+      </p>
+    </div>
+  );
+}
+
+export function ColorAdjustmentPanel({ selectedModel, onAdjustmentChange, conversionSettings = defaultConversionSettings }: ColorAdjustmentPanelProps) {
+  const [adjustments, setAdjustments] = useState<ColorAdjustments>(createDefaultAdjustments);
+  const space = getColorSpace(selectedModel);
 
   const handleReset = () => {
-    setAdjustments(defaultAdjustments);
-    onAdjustmentChange(defaultAdjustments);
+    const defaults = createDefaultAdjustments();
+    setAdjustments(defaults);
+    onAdjustmentChange(defaults);
   };
 
-  const updateAdjustment = (model: string, channel: string, value: number[]) => {
+  const updateAdjustment = (model: ColorModel, channel: string, value: number[]) => {
     const newAdjustments = {
       ...adjustments,
       [model]: {
-        ...adjustments[model as keyof ColorAdjustments],
+        ...adjustments[model],
         [channel]: value[0]
       }
     };
@@ -51,264 +78,36 @@ export function ColorAdjustmentPanel({ selectedModel, onAdjustmentChange }: Colo
   }, [selectedModel]);
 
   const renderSliders = () => {
-    switch (selectedModel) {
-      case 'RGB':
-        return (
-          <div className="space-y-6">
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-destructive">Red</label>
-                <span className="text-xs text-muted-foreground">{adjustments.rgb?.r || 0}</span>
-              </div>
-              <Slider
-                value={[adjustments.rgb?.r || 0]}
-                onValueChange={(value) => updateAdjustment('rgb', 'r', value)}
-                min={-255}
-                max={255}
-                step={1}
-                className="w-full"
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-secondary">Green</label>
-                <span className="text-xs text-muted-foreground">{adjustments.rgb?.g || 0}</span>
-              </div>
-              <Slider
-                value={[adjustments.rgb?.g || 0]}
-                onValueChange={(value) => updateAdjustment('rgb', 'g', value)}
-                min={-255}
-                max={255}
-                step={1}
-                className="w-full"
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-primary">Blue</label>
-                <span className="text-xs text-muted-foreground">{adjustments.rgb?.b || 0}</span>
-              </div>
-              <Slider
-                value={[adjustments.rgb?.b || 0]}
-                onValueChange={(value) => updateAdjustment('rgb', 'b', value)}
-                min={-255}
-                max={255}
-                step={1}
-                className="w-full"
-              />
-            </div>
-          </div>
-        );
+    if (!space) return null;
 
-      case 'HSV':
-        return (
-          <div className="space-y-6">
-            <div className="space-y-2">
+    const note = space.note?.(conversionSettings);
+    return (
+      <div className="space-y-6">
+        {note && <p className="text-xs text-muted-foreground">{note}</p>}
+        {getChannels(space, conversionSettings).map((channel) => {
+          const value = adjustments[space.id]?.[channel.key] || 0;
+          return (
+            <div key={channel.key} className="space-y-2">
               <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-accent">Hue</label>
-                <span className="text-xs text-muted-foreground">{adjustments.hsv?.h || 0}°</span>
+                <label className={`text-sm font-medium ${themeTextClasses[channel.swatch]}`}>{channel.label}</label>
+                <span className="text-xs text-muted-foreground">{value}{channel.unit}</span>
               </div>
               <Slider
-                value={[adjustments.hsv?.h || 0]}
-                onValueChange={(value) => updateAdjustment('hsv', 'h', value)}
-                min={-180}
-                max={180}
-                step={1}
+                value={[value]}
+                onValueChange={(value) => updateAdjustment(space.id, channel.key, value)}
+                min={channel.adjustment.min}
+                max={channel.adjustment.max}
+                step={channel.adjustment.step}
                 className="w-full"
               />
             </div>
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-primary">Saturation</label>
-                <span className="text-xs text-muted-foreground">{adjustments.hsv?.s || 0}%</span>
-              </div>
-              <Slider
-                value={[adjustments.hsv?.s || 0]}
-                onValueChange={(value) => updateAdjustment('hsv', 's', value)}
-                min={-100}
-                max={100}
-                step={1}
-                className="w-full"
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-secondary">Value</label>
-                <span className="text-xs text-muted-foreground">{adjustments.hsv?.v || 0}%</span>
-              </div>
-              <Slider
-                value={[adjustments.hsv?.v || 0]}
-                onValueChange={(value) => updateAdjustment('hsv', 'v', value)}
-                min={-100}
-                max={100}
-                step={1}
-                className="w-full"
-              />
-            </div>
-          </div>
-        );
-
-      case 'CMYK':
-        return (
-          <div className="space-y-6">
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-secondary">Cyan</label>
-                <span className="text-xs text-muted-foreground">{adjustments.cmyk?.c || 0}%</span>
-              </div>
-              <Slider
-                value={[adjustments.cmyk?.c || 0]}
-                onValueChange={(value) => updateAdjustment('cmyk', 'c', value)}
-                min={-100}
-                max={100}
-                step={1}
-                className="w-full"
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-accent">Magenta</label>
-                <span className="text-xs text-muted-foreground">{adjustments.cmyk?.m || 0}%</span>
-              </div>
-              <Slider
-                value={[adjustments.cmyk?.m || 0]}
-                onValueChange={(value) => updateAdjustment('cmyk', 'm', value)}
-                min={-100}
-                max={100}
-                step={1}
-                className="w-full"
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-destructive">Yellow</label>
-                <span className="text-xs text-muted-foreground">{adjustments.cmyk?.y || 0}%</span>
-              </div>
-              <Slider
-                value={[adjustments.cmyk?.y || 0]}
-                onValueChange={(value) => updateAdjustment('cmyk', 'y', value)}
-                min={-100}
-                max={100}
-                step={1}
-                className="w-full"
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-foreground">Black</label>
-                <span className="text-xs text-muted-foreground">{adjustments.cmyk?.k || 0}%</span>
-              </div>
-              <Slider
-                value={[adjustments.cmyk?.k || 0]}
-                onValueChange={(value) => updateAdjustment('cmyk', 'k', value)}
-                min={-100}
-                max={100}
-                step={1}
-                className="w-full"
-              />
-            </div>
-          </div>
-        );
-
-      case 'LAB':
-        return (
-          <div className="space-y-6">
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-foreground">Lightness</label>
-                <span className="text-xs text-muted-foreground">{adjustments.lab?.l || 0}</span>
-              </div>
-              <Slider
-                value={[adjustments.lab?.l || 0]}
-                onValueChange={(value) => updateAdjustment('lab', 'l', value)}
-                min={-100}
-                max={100}
-                step={1}
-                className="w-full"
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-secondary">A (Green-Red)</label>
-                <span className="text-xs text-muted-foreground">{adjustments.lab?.a || 0}</span>
-              </div>
-              <Slider
-                value={[adjustments.lab?.a || 0]}
-                onValueChange={(value) => updateAdjustment('lab', 'a', value)}
-                min={-128}
-                max={128}
-                step={1}
-                className="w-full"
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-primary">B (Blue-Yellow)</label>
-                <span className="text-xs text-muted-foreground">{adjustments.lab?.b || 0}</span>
-              </div>
-              <Slider
-                value={[adjustments.lab?.b || 0]}
-                onValueChange={(value) => updateAdjustment('lab', 'b', value)}
-                min={-128}
-                max={128}
-                step={1}
-                className="w-full"
-              />
-            </div>
-          </div>
-        );
-
-      case 'YUV':
-        return (
-          <div className="space-y-6">
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-foreground">Luma (Y)</label>
-                <span className="text-xs text-muted-foreground">{adjustments.yuv?.y || 0}</span>
-              </div>
-              <Slider
-                value={[adjustments.yuv?.y || 0]}
-                onValueChange={(value) => updateAdjustment('yuv', 'y', value)}
-                min={-255}
-                max={255}
-                step={1}
-                className="w-full"
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-primary">U (Blue)</label>
-                <span className="text-xs text-muted-foreground">{adjustments.yuv?.u || 0}</span>
-              </div>
-              <Slider
-                value={[adjustments.yuv?.u || 0]}
-                onValueChange={(value) => updateAdjustment('yuv', 'u', value)}
-                min={-255}
-                max={255}
-                step={1}
-                className="w-full"
-              />
-            </div>
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
-                <label className="text-sm font-medium text-destructive">V (Red)</label>
-                <span className="text-xs text-muted-foreground">{adjustments.yuv?.v || 0}</span>
-              </div>
-              <Slider
-                value={[adjustments.yuv?.v || 0]}
-                onValueChange={(value) => updateAdjustment('yuv', 'v', value)}
-                min={-255}
-                max={255}
-                step={1}
-                className="w-full"
-              />
-            </div>
-          </div>
-        );
-
-      default:
-        return null;
-    }
+          );
+        })}
+        {space.notation && (
+          <NotationSwatch key={space.id} space={space} notation={space.notation} conversionSettings={conversionSettings} />
+        )}
+      </div>
+    );
   };
 
   return (
@@ -320,7 +119,7 @@ export function ColorAdjustmentPanel({ selectedModel, onAdjustmentChange }: Colo
           </div>
           <div>
             <h3 className="text-lg font-semibold text-card-foreground">
-              {selectedModel} Adjustments
+              {space?.label ?? selectedModel} Adjustments
             </h3>
             <p className="text-sm text-muted-foreground">
               Fine-tune color values in real-time
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ConversionSettings, RGBColor, defaultConversionSettings } from "@/utils/colorConversions";
+import { getColorInModel } from "@/utils/colorSpaces";
+import { Color } from "@/utils/color";
+import { formatCssColor } from "@/utils/cssColor";
+import { Pipette, Ruler } from "lucide-react";
+
+interface ColorDifferencePanelProps {
+  conversionSettings?: ConversionSettings;
+  // Pixel picked in the workspace; fills the slot that is waiting for a pick
+  sampledColor?: RGBColor | null;
+}
+
+type Slot = 'reference' | 'sample';
+
+const slots: { id: Slot; label: string; placeholder: string }[] = [
+  { id: 'reference', label: 'Reference', placeholder: 'Spec color, e.g. lab(52 48 -12) or #c8102e' },
+  { id: 'sample', label: 'Sample', placeholder: 'Pick a pixel or type a color' },
+];
+
+// Common reading of a CIEDE2000 difference
+const describeDeltaE2000 = (value: number) => {
+  if (value < 1) return 'Not perceptible by human eyes';
+  if (value < 2) return 'Perceptible through close observation';
+  if (value < 10) return 'Perceptible at a glance';
+  if (value < 50) return 'Colors are more similar than opposite';
+  return 'Colors are nearly opposite';
+};
+
+export function ColorDifferencePanel({ conversionSettings = defaultConversionSettings, sampledColor }: ColorDifferencePanelProps) {
+  // The slot that receives the next workspace pick lives with the texts so a pick can update both
+  const [{ texts, target }, setState] = useState<{ texts: Record<Slot, string>; target: Slot }>({
+    texts: { reference: '', sample: '' },
+    target: 'reference',
+  });
+
+  useEffect(() => {
+    if (!sampledColor) return;
+    // Picks alternate between reference and sample, so two clicks compare two pixels
+    setState((current) => ({
+      texts: { ...current.texts, [current.target]: formatCssColor(sampledColor, 'hex') },
+      target: current.target === 'reference' ? 'sample' : 'reference',
+    }));
+  }, [sampledColor]);
+
+  // CSS colors, or model values as written by Color#toString (e.g. LAB(52, 48, -12))
+  const reference = Color.parseAny(texts.reference, conversionSettings);
+  const sample = Color.parseAny(texts.sample, conversionSettings);
+  const difference = reference && sample && reference.deltaE(sample);
+
+  const metrics = difference && [
+    { label: 'ΔE2000', value: difference.deltaE2000, note: 'CIEDE2000' },
+    { label: 'ΔE94', value: difference.deltaE94, note: 'Graphic arts' },
+    { label: 'CMC 2:1', value: difference.deltaECMC, note: 'Acceptability' },
+    { label: 'ΔE76', value: difference.deltaE76, note: 'LAB distance' },
+  ];
+
+  return (
+    <Card className="p-4 bg-card border-border">
+      <div className="flex items-center gap-2 mb-4">
+        <Ruler className="w-4 h-4 text-primary" />
+        <h3 className="font-medium">Color Difference</h3>
+      </div>
+
+      <div className="space-y-4">
+        {slots.map(({ id, label, placeholder }) => {
+          const color = id === 'reference' ? reference : sample;
+          return (
+            <div key={id} className="space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{label}</span>
+                <span className="text-xs text-muted-foreground font-mono">
+                  {color && getColorInModel(color.toRgb({ clip: false }), 'LAB', 1, conversionSettings)}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant={target === id ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-9 w-9 p-0 shrink-0"
+                  onClick={() => setState({ texts, target: id })}
+                  aria-label={`Pick the ${label.toLowerCase()} from the workspace`}
+                  title="Next pixel clicked in the workspace goes here"
+                >
+                  <Pipette className="w-4 h-4" />
+                </Button>
+                <Input
+                  value={texts[id]}
+                  onChange={(e) => setState({ texts: { ...texts, [id]: e.target.value }, target })}
+                  placeholder={placeholder}
+                  className="bg-card border-border font-mono"
+                />
+                <div
+                  className="w-9 h-9 shrink-0 rounded-md border border-border"
+                  style={{ backgroundColor: color ? color.toCss('rgb') : 'transparent' }}
+                />
+              </div>
+            </div>
+          );
+        })}
+
+        {metrics ? (
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {metrics.map(({ label, value, note }) => (
+                <div key={label} className="rounded-md border border-border p-2 text-center">
+                  <div className="text-xs text-muted-foreground">{label}</div>
+                  <div className="text-lg font-semibold font-mono">{value.toFixed(2)}</div>
+                  <div className="text-[10px] text-muted-foreground">{note}</div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {describeDeltaE2000(metrics[0].value)}. LAB is relative to {conversionSettings.whitePoint}; CIE94 and CMC weight by the reference.
+            </p>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Type colors in any CSS syntax, or press the pipette and click a pixel in the workspace.
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -1,7 +1,23 @@
 import { Card } from "@/components/ui/card";
-import { Palette, Sparkles } from "lucide-react";
+import { Box, Palette, Sparkles } from "lucide-react";
+import { ConversionSettings } from "@/utils/colorConversions";
+import { ColorModel, getColorSpace, getColorSpaces } from "@/utils/colorSpaces";
+import { cn, themeTextClasses } from "@/lib/utils";
+import { ColorSolidViewer } from "@/components/ColorSolidViewer";
+import type { WorkspaceFrame } from "@/components/ImageWorkspace";
+
+interface ColorMagicHeaderProps {
+  // Drives the color solid; without it only the model cards are shown
+  selectedModel?: ColorModel;
+  // Called when a model card is clicked
+  onModelChange?: (model: ColorModel) => void;
+  frame?: WorkspaceFrame | null;
+  conversionSettings?: ConversionSettings;
+}
+
+export function ColorMagicHeader({ selectedModel, onModelChange, frame = null, conversionSettings }: ColorMagicHeaderProps = {}) {
+  const selectedSpace = selectedModel ? getColorSpace(selectedModel) : undefined;
 
-export function ColorMagicHeader() {
   return (
     <div className="text-center space-y-6 mb-12">
       {/* Hero Section */}
@@ -27,37 +43,41 @@ export function ColorMagicHeader() {
       {/* Educational Content */}
       <Card className="p-6 bg-card/50 backdrop-blur border-border">
         <div className="grid md:grid-cols-2 lg:grid-cols-5 gap-6 text-left">
-          <div className="space-y-2">
-            <h3 className="font-semibold text-primary">RGB</h3>
-            <p className="text-sm text-muted-foreground">
-              Red, Green, Blue additive color model used in digital displays. Perfect for screens and digital art.
-            </p>
-          </div>
-          <div className="space-y-2">
-            <h3 className="font-semibold text-secondary">HSV</h3>
-            <p className="text-sm text-muted-foreground">
-              Hue, Saturation, Value model that's intuitive for artists and designers to work with colors.
-            </p>
-          </div>
-          <div className="space-y-2">
-            <h3 className="font-semibold text-accent">CMYK</h3>
-            <p className="text-sm text-muted-foreground">
-              Cyan, Magenta, Yellow, Key (Black) subtractive model used in printing and publishing.
-            </p>
-          </div>
-          <div className="space-y-2">
-            <h3 className="font-semibold text-primary-glow">LAB</h3>
-            <p className="text-sm text-muted-foreground">
-              Lightness, A*, B* perceptual color space designed to approximate human vision.
-            </p>
-          </div>
-          <div className="space-y-2">
-            <h3 className="font-semibold text-secondary">YUV</h3>
-            <p className="text-sm text-muted-foreground">
-              Luma (brightness) and Chrominance color encoding used in video transmission systems.
-            </p>
-          </div>
+          {getColorSpaces().map(({ id, label, education }) => education && (
+            <div
+              key={id}
+              className={cn(
+                "space-y-2 rounded-lg p-2 -m-2 transition-smooth",
+                onModelChange && "cursor-pointer hover:bg-muted/50",
+                id === selectedModel && "ring-1 ring-primary/60"
+              )}
+              onClick={() => onModelChange?.(id)}
+            >
+              <h3 className={`font-semibold ${themeTextClasses[education.color]}`}>{label}</h3>
+              <p className="text-sm text-muted-foreground">
+                {education.summary}
+              </p>
+            </div>
+          ))}
         </div>
+
+        {/* The image's pixels inside the selected model's color solid */}
+        {selectedModel && selectedSpace && (
+          <div className="grid md:grid-cols-2 gap-6 items-center mt-8 pt-6 border-t border-border text-left">
+            <ColorSolidViewer selectedModel={selectedModel} frame={frame} conversionSettings={conversionSettings} />
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Box className="w-4 h-4 text-primary" />
+                <h3 className="font-semibold">{selectedSpace.label} Color Solid</h3>
+              </div>
+              <p className="text-sm text-muted-foreground">{selectedSpace.description}</p>
+              <p className="text-sm text-muted-foreground">
+                Every dot is a pixel placed by its {selectedSpace.label} values. Pick another model and watch the
+                same pixels move into its shape: the RGB cube, the HSV cone, the HSL double cone or the Lab solid.
+              </p>
+            </div>
+          </div>
+        )}
       </Card>
 
       {/* Instructions */}
@@ -1,19 +1,11 @@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ColorModel } from "@/utils/colorConversions";
+import { ColorModel, getColorSpaces } from "@/utils/colorSpaces";
 
 interface ColorModelSelectorProps {
   selectedModel: ColorModel;
   onModelChange: (model: ColorModel) => void;
 }
 
-const colorModels: { value: ColorModel; label: string; description: string }[] = [
-  { value: 'RGB', label: 'RGB', description: 'Red, Green, Blue - Additive color model' },
-  { value: 'HSV', label: 'HSV', description: 'Hue, Saturation, Value - Intuitive color model' },
-  { value: 'CMYK', label: 'CMYK', description: 'Cyan, Magenta, Yellow, Key - Print color model' },
-  { value: 'LAB', label: 'LAB', description: 'Lightness, A*, B* - Perceptual color model' },
-  { value: 'YUV', label: 'YUV', description: 'Luma, Chrominance - Video color model' },
-];
-
 export function ColorModelSelector({ selectedModel, onModelChange }: ColorModelSelectorProps) {
   return (
     <div className="space-y-2">
@@ -23,15 +15,15 @@ export function ColorModelSelector({ selectedModel, onModelChange }: ColorModelS
           <SelectValue placeholder="Select a color model" />
         </SelectTrigger>
         <SelectContent className="bg-popover border-border">
-          {colorModels.map((model) => (
+          {getColorSpaces().map((space) => (
             <SelectItem 
-              key={model.value} 
-              value={model.value}
+              key={space.id} 
+              value={space.id}
               className="hover:bg-muted focus:bg-muted cursor-pointer"
             >
               <div className="flex flex-col">
-                <span className="font-medium">{model.label}</span>
-                <span className="text-xs text-muted-foreground">{model.description}</span>
+                <span className="font-medium">{space.label}</span>
+                <span className="text-xs text-muted-foreground">{space.description}</span>
               </div>
             </SelectItem>
           ))}
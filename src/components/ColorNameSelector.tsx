@@ -0,0 +1,35 @@
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { COLOR_NAME_DICTIONARIES, ColorNameDictionary } from "@/utils/colorNames";
+
+interface ColorNameSelectorProps {
+  dictionaries: ColorNameDictionary[];
+  onDictionariesChange: (dictionaries: ColorNameDictionary[]) => void;
+}
+
+export function ColorNameSelector({ dictionaries, onDictionariesChange }: ColorNameSelectorProps) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-foreground">Color Names</label>
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        size="sm"
+        value={dictionaries}
+        onValueChange={(value) => onDictionariesChange(value as ColorNameDictionary[])}
+        className="justify-start flex-wrap"
+      >
+        {COLOR_NAME_DICTIONARIES.map((dictionary) => (
+          <ToggleGroupItem
+            key={dictionary.id}
+            value={dictionary.id}
+            title={dictionary.description}
+            className="h-7 px-2 text-xs"
+          >
+            {dictionary.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <p className="text-xs text-muted-foreground">Hover tooltips name the nearest color by ΔE2000</p>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Switch } from "@/components/ui/switch";
+import { ConversionSettings, defaultConversionSettings } from "@/utils/colorConversions";
+import { ColorModel } from "@/utils/colorSpaces";
+import {
+  SolidLayout,
+  SolidView,
+  layoutColorSolid,
+  morphProgress,
+  projectPoint,
+  rgbGridColors,
+  sampleImageColors,
+  solidOutline,
+} from "@/utils/colorSolid";
+import type { WorkspaceFrame } from "@/components/ImageWorkspace";
+
+interface ColorSolidViewerProps {
+  selectedModel: ColorModel;
+  // Pixels to plot; the sRGB cube is sampled on a grid without one
+  frame?: WorkspaceFrame | null;
+  conversionSettings?: ConversionSettings;
+}
+
+const CANVAS_SIZE = 360;
+
+const MORPH_DURATION = 1200;
+
+// Radians of yaw per millisecond while auto-rotating
+const ROTATION_SPEED = 0.0003;
+
+// A morph in progress: where the points started and the solid they left
+interface Morph {
+  from: Float32Array;
+  fromLayout: SolidLayout;
+  start: number;
+}
+
+export function ColorSolidViewer({ selectedModel, frame = null, conversionSettings = defaultConversionSettings }: ColorSolidViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewRef = useRef<SolidView>({ yaw: 0.6, pitch: 0.35 });
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const morphRef = useRef<Morph | null>(null);
+  // Layout and positions on screen at the last draw, where the next morph starts from
+  const shownLayoutRef = useRef<{ layout: SolidLayout; model: ColorModel } | null>(null);
+  const shownPositionsRef = useRef<Float32Array | null>(null);
+  const [autoRotate, setAutoRotate] = useState(true);
+  // Spinning stops while the canvas is scrolled out of view
+  const [onScreen, setOnScreen] = useState(true);
+
+  const colors = useMemo(() => (frame ? sampleImageColors(frame.adjusted) : rgbGridColors()), [frame]);
+  const fills = useMemo(() => colors.map(({ r, g, b }) => `rgb(${Math.round(r)} ${Math.round(g)} ${Math.round(b)})`), [colors]);
+  const layout = useMemo(() => layoutColorSolid(colors, selectedModel, conversionSettings), [colors, selectedModel, conversionSettings]);
+
+  // Morph only when the model changes; new pixels or settings jump straight to their place
+  useEffect(() => {
+    if (!layout) return;
+    const shown = shownLayoutRef.current;
+    const positions = shownPositionsRef.current;
+    morphRef.current = shown && positions && shown.model !== selectedModel && positions.length === layout.positions.length
+      ? { from: positions.slice(), fromLayout: shown.layout, start: performance.now() }
+      : null;
+    shownLayoutRef.current = { layout, model: selectedModel };
+    shownPositionsRef.current = layout.positions.slice();
+  }, [layout, selectedModel]);
+
+  // Draw one frame; true while a morph is still running
+  const draw = useCallback((now: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const positions = shownPositionsRef.current;
+    if (!ctx || !layout || !positions) return false;
+
+    const morph = morphRef.current;
+    const t = morph ? morphProgress(now - morph.start, MORPH_DURATION) : 1;
+    for (let i = 0; i < positions.length; i++) {
+      positions[i] = morph ? morph.from[i] + (layout.positions[i] - morph.from[i]) * t : layout.positions[i];
+    }
+    if (t >= 1) morphRef.current = null;
+
+    const view = viewRef.current;
+    ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+
+    // Outlines cross-fade while the points travel
+    const outlines = morph && t < 1
+      ? [{ solid: morph.fromLayout.solid, alpha: 1 - t }, { solid: layout.solid, alpha: t }]
+      : [{ solid: layout.solid, alpha: 1 }];
+    ctx.lineWidth = 1;
+    for (const { solid, alpha } of outlines) {
+      ctx.strokeStyle = `rgba(255, 255, 255, ${0.35 * alpha})`;
+      for (const line of solidOutline(solid)) {
+        ctx.beginPath();
+        line.forEach((point, index) => {
+          const { x, y } = projectPoint(point, view, CANVAS_SIZE);
+          if (index === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+      }
+    }
+
+    // Painter's algorithm: far points first
+    const count = positions.length / 3;
+    const projected = Array.from({ length: count }, (_, index) =>
+      projectPoint([positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]], view, CANVAS_SIZE)
+    );
+    const order = Array.from({ length: count }, (_, index) => index).sort((a, b) => projected[a].depth - projected[b].depth);
+    for (const index of order) {
+      const { x, y, scale } = projected[index];
+      const size = 2.5 * scale;
+      ctx.fillStyle = fills[index];
+      ctx.fillRect(x - size / 2, y - size / 2, size, size);
+    }
+
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillStyle = `rgba(255, 255, 255, ${0.7 * t})`;
+    for (const { position, text } of layout.labels) {
+      const { x, y } = projectPoint(position, view, CANVAS_SIZE);
+      ctx.fillText(text, x, y);
+    }
+    return t < 1;
+  }, [layout, fills]);
+
+  // The canvas only mounts once there is a layout
+  const hasLayout = layout !== null;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new IntersectionObserver(([entry]) => setOnScreen(entry.isIntersecting));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [hasLayout]);
+
+  // Keep animating while rotating or morphing, and stop once still or off-screen
+  useEffect(() => {
+    if (!onScreen) return;
+    let request = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      if (autoRotate && !dragRef.current) viewRef.current.yaw += (now - last) * ROTATION_SPEED;
+      last = now;
+      const morphing = draw(now);
+      if (autoRotate || morphing) request = requestAnimationFrame(tick);
+    };
+    request = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(request);
+  }, [autoRotate, onScreen, draw]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const view = viewRef.current;
+    view.yaw += (e.clientX - drag.x) * 0.01;
+    view.pitch = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, view.pitch + (e.clientY - drag.y) * 0.01));
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    if (!autoRotate) draw(performance.now());
+  };
+
+  if (!layout) return null;
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_SIZE}
+        height={CANVAS_SIZE}
+        className="w-full max-w-[360px] mx-auto aspect-square rounded-lg bg-black cursor-grab active:cursor-grabbing touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+      />
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {frame ? `${(layout.positions.length / 3).toLocaleString()} workspace pixels` : 'The sRGB cube on a 16-step grid'} · drag to rotate
+        </span>
+        <label className="flex items-center gap-2">
+          <Switch checked={autoRotate} onCheckedChange={setAutoRotate} />
+          Spin
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  ConversionSettings,
+  ContrastSuggestion,
+  RGBColor,
+  WCAG_CONTRAST_LEVELS,
+  apcaContrast,
+  contrastRatio,
+  defaultConversionSettings,
+  suggestContrastLightness
+} from "@/utils/colorConversions";
+import { Color } from "@/utils/color";
+import { formatCssColor } from "@/utils/cssColor";
+import { Contrast, Pipette } from "lucide-react";
+
+interface ContrastCheckerPanelProps {
+  conversionSettings?: ConversionSettings;
+  // Pixel picked in the workspace; fills the slot that is waiting for a pick
+  sampledColor?: RGBColor | null;
+}
+
+type Slot = 'foreground' | 'background';
+
+const slots: { id: Slot; label: string }[] = [
+  { id: 'foreground', label: 'Text' },
+  { id: 'background', label: 'Background' },
+];
+
+const targets = [
+  { id: 'AA', label: 'AA', ratio: WCAG_CONTRAST_LEVELS.AA.normal },
+  { id: 'AA-large', label: 'AA large', ratio: WCAG_CONTRAST_LEVELS.AA.large },
+  { id: 'AAA', label: 'AAA', ratio: WCAG_CONTRAST_LEVELS.AAA.normal },
+  { id: 'AAA-large', label: 'AAA large', ratio: WCAG_CONTRAST_LEVELS.AAA.large },
+];
+
+// APCA Bronze readability guide for |Lc|
+const describeApca = (lc: number) => {
+  const value = Math.abs(lc);
+  if (value >= 90) return 'Preferred for body text';
+  if (value >= 75) return 'Minimum for body text';
+  if (value >= 60) return 'Minimum for content text that is not body text';
+  if (value >= 45) return 'Minimum for large text and headlines';
+  if (value >= 30) return 'Minimum for spot text and non-text elements';
+  if (value >= 15) return 'Minimum for non-text elements';
+  return 'Not readable';
+};
+
+export function ContrastCheckerPanel({ conversionSettings = defaultConversionSettings, sampledColor }: ContrastCheckerPanelProps) {
+  // The slot that receives the next workspace pick lives with the texts so a pick can update both
+  const [{ texts, target }, setState] = useState<{ texts: Record<Slot, string>; target: Slot }>({
+    texts: { foreground: '#767676', background: '#ffffff' },
+    target: 'foreground',
+  });
+  // Level the suggestions aim for; AA and AAA large share a ratio, so the id is kept
+  const [targetId, setTargetId] = useState(targets[0].id);
+  const targetRatio = (targets.find(({ id }) => id === targetId) ?? targets[0]).ratio;
+
+  useEffect(() => {
+    if (!sampledColor) return;
+    // Picking the text moves on to the background, so two clicks check a text/background pair
+    setState((current) => ({
+      texts: { ...current.texts, [current.target]: formatCssColor(sampledColor, 'hex') },
+      target: current.target === 'foreground' ? 'background' : 'foreground',
+    }));
+  }, [sampledColor]);
+
+  // Contrast is judged on what the display shows, so out-of-gamut input is mapped first. Values with
+  // no RGB at all (e.g. PQ(2, 2, 2)) are left unparsed, as they have nothing to map.
+  const foreground = Color.parseAny(texts.foreground, conversionSettings)?.toGamut().toRgb();
+  const background = Color.parseAny(texts.background, conversionSettings)?.toGamut().toRgb();
+  const colors: Record<Slot, RGBColor | undefined> = { foreground, background };
+
+  const contrast = foreground && background && {
+    ratio: contrastRatio(foreground, background),
+    lc: apcaContrast(foreground, background),
+  };
+
+  const setText = (slot: Slot, text: string) => setState({ texts: { ...texts, [slot]: text }, target });
+
+  const renderSuggestion = (slot: Slot, suggestion: ContrastSuggestion | null, direction: string) => {
+    if (!suggestion) return null;
+    const hex = formatCssColor(suggestion.rgb, 'hex');
+    return (
+      <Button
+        key={direction}
+        variant="outline"
+        size="sm"
+        className="h-8 justify-start gap-2 font-mono text-xs"
+        onClick={() => setText(slot, hex)}
+        title={`Oklch lightness ${(suggestion.lightness * 100).toFixed(1)}%, ${suggestion.ratio.toFixed(2)}:1`}
+      >
+        <span className="w-4 h-4 rounded-sm border border-border" style={{ backgroundColor: hex }} />
+        {direction} {hex}
+      </Button>
+    );
+  };
+
+  return (
+    <Card className="p-4 bg-card border-border">
+      <div className="flex items-center gap-2 mb-4">
+        <Contrast className="w-4 h-4 text-primary" />
+        <h3 className="font-medium">Contrast Checker</h3>
+      </div>
+
+      <div className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-4">
+          {slots.map(({ id, label }) => (
+            <div key={id} className="space-y-1">
+              <span className="text-sm font-medium">{label}</span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant={target === id ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-9 w-9 p-0 shrink-0"
+                  onClick={() => setState({ texts, target: id })}
+                  aria-label={`Pick the ${label.toLowerCase()} color from the workspace`}
+                  title="Next pixel clicked in the workspace goes here"
+                >
+                  <Pipette className="w-4 h-4" />
+                </Button>
+                <Input
+                  value={texts[id]}
+                  onChange={(e) => setText(id, e.target.value)}
+                  placeholder="Any CSS color"
+                  className="bg-card border-border font-mono"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {foreground && background && contrast ? (
+          <>
+            <div
+              className="rounded-lg border border-border p-4 space-y-1"
+              style={{ backgroundColor: formatCssColor(background, 'hex'), color: formatCssColor(foreground, 'hex') }}
+            >
+              <p className="text-2xl font-bold">Large text 24px</p>
+              <p className="text-sm">Normal text at 14px should stay readable on this background.</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="rounded-md border border-border p-2 text-center">
+                <div className="text-xs text-muted-foreground">WCAG 2.1</div>
+                <div className="text-lg font-semibold font-mono">{contrast.ratio.toFixed(2)}:1</div>
+              </div>
+              <div className="rounded-md border border-border p-2 text-center">
+                <div className="text-xs text-muted-foreground">APCA</div>
+                <div className="text-lg font-semibold font-mono">Lc {contrast.lc.toFixed(1)}</div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {targets.map(({ id, label, ratio: minimum }) => (
+                <Badge key={id} variant={contrast.ratio >= minimum ? 'default' : 'destructive'}>
+                  {label} {contrast.ratio >= minimum ? 'pass' : 'fail'}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {describeApca(contrast.lc)}. Large text is 18pt (24px), or 14pt (about 18.7px) bold.
+            </p>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">Suggestions</span>
+                <div className="flex gap-1">
+                  {targets.map(({ id, label }) => (
+                    <Button
+                      key={id}
+                      variant={targetId === id ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => setTargetId(id)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {slots.map(({ id, label }) => {
+                const color = colors[id];
+                const other = colors[id === 'foreground' ? 'background' : 'foreground'];
+                if (!color || !other) return null;
+                const { darker, lighter } = suggestContrastLightness(color, other, targetRatio, conversionSettings);
+                return (
+                  <div key={id} className="grid grid-cols-[5.5rem_1fr] items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{label}</span>
+                    <div className="flex flex-wrap gap-2">
+                      {contrast.ratio >= targetRatio
+                        ? <span className="text-xs text-muted-foreground">Already passes</span>
+                        : darker || lighter
+                          ? [renderSuggestion(id, darker, 'Darker'), renderSuggestion(id, lighter, 'Lighter')]
+                          : <span className="text-xs text-muted-foreground">No lightness passes</span>}
+                    </div>
+                  </div>
+                );
+              })}
+              <p className="text-xs text-muted-foreground">
+                Nearest Oklch lightness that reaches {targetRatio}:1, keeping chroma and hue where the gamut allows.
+              </p>
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Type a text and a background color, or press a pipette and click pixels in the workspace.
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  AppearanceModel,
+  ChromaticAdaptation,
+  Chromaticity,
+  ConversionSettings,
+  GamutMapping,
+  RGB_SPACES,
+  RGBSpace,
+  Surround,
+  TransferFunction,
+  ViewingConditions,
+  WHITE_POINT_CHROMATICITIES,
+  WhitePoint,
+  YCbCrMatrix,
+  YCbCrRange,
+  hasIndependentPrimaries
+} from "@/utils/colorConversions";
+import { Settings2 } from "lucide-react";
+
+interface ConversionSettingsPanelProps {
+  settings: ConversionSettings;
+  onSettingsChange: (settings: ConversionSettings) => void;
+}
+
+interface SettingOption<T extends string> {
+  value: T;
+  label: string;
+  description: string;
+}
+
+const whitePoints: SettingOption<WhitePoint>[] = [
+  { value: 'D65', label: 'D65', description: 'Noon daylight - sRGB and video reference' },
+  { value: 'D50', label: 'D50', description: 'Horizon daylight - ICC and print reference' },
+  { value: 'A', label: 'A', description: 'Incandescent tungsten lamp' },
+  { value: 'F2', label: 'F2', description: 'Cool white fluorescent' },
+  { value: 'C', label: 'C', description: 'Average daylight - Munsell renotation reference' },
+  { value: 'E', label: 'E', description: 'Equal-energy white' },
+];
+
+const adaptations: SettingOption<ChromaticAdaptation>[] = [
+  { value: 'Bradford', label: 'Bradford', description: 'ICC standard cone response' },
+  { value: 'CAT02', label: 'CAT02', description: 'CIECAM02 chromatic adaptation' },
+  { value: 'VonKries', label: 'von Kries', description: 'Hunt-Pointer-Estevez cone response' },
+];
+
+const ycbcrMatrices: SettingOption<YCbCrMatrix>[] = [
+  { value: 'BT601', label: 'BT.601', description: 'Standard definition video, JPEG' },
+  { value: 'BT709', label: 'BT.709', description: 'HD video' },
+  { value: 'BT2020', label: 'BT.2020', description: 'UHD and HDR video' },
+];
+
+const ycbcrRanges: SettingOption<YCbCrRange>[] = [
+  { value: 'limited', label: 'Limited (studio)', description: 'Y 16-235, Cb/Cr 16-240' },
+  { value: 'full', label: 'Full (PC)', description: 'All channels 0-255' },
+];
+
+const appearanceModels: SettingOption<AppearanceModel>[] = [
+  { value: 'CAM16', label: 'CAM16', description: 'Current CIE recommendation' },
+  { value: 'CIECAM02', label: 'CIECAM02', description: 'Predecessor with CAT02 and HPE cone spaces' },
+];
+
+const surrounds: SettingOption<Surround>[] = [
+  { value: 'average', label: 'Average', description: 'Surface colors, lit office' },
+  { value: 'dim', label: 'Dim', description: 'Television in a dim living room' },
+  { value: 'dark', label: 'Dark', description: 'Cinema or projector in a dark room' },
+];
+
+const gamutMappings: SettingOption<GamutMapping>[] = [
+  { value: 'clip', label: 'Clip', description: 'Clamp each RGB channel - fast, may shift hue' },
+  { value: 'oklch', label: 'Oklch chroma', description: 'Reduce chroma, keep Oklch lightness and hue' },
+  { value: 'lch', label: 'LCh chroma', description: 'Reduce chroma, keep CIE LCh lightness and hue' },
+  { value: 'css4', label: 'CSS Color 4', description: 'Oklch chroma reduction within a just-noticeable difference' },
+];
+
+const CUSTOM_RGB_SPACE_ID = 'custom';
+
+const transferNames: Record<TransferFunction, string> = {
+  srgb: 'sRGB curve',
+  rec2020: 'BT.2020 curve',
+  prophoto: 'ProPhoto curve',
+  gamma: 'gamma',
+  linear: 'linear',
+};
+
+const describeRgbSpace = (space: RGBSpace) => {
+  const white = Object.entries(WHITE_POINT_CHROMATICITIES)
+    .find(([, chromaticity]) => chromaticity.x === space.white.x && chromaticity.y === space.white.y)?.[0] ?? 'custom';
+  const transfer = space.transfer === 'gamma' ? `gamma ${space.gamma?.toFixed(2)}` : transferNames[space.transfer];
+  return `${white} white, ${transfer}`;
+};
+
+const rgbSpaceOptions: SettingOption<string>[] = [
+  ...RGB_SPACES.map((space) => ({ value: space.id, label: space.name, description: describeRgbSpace(space) })),
+  { value: CUSTOM_RGB_SPACE_ID, label: 'Custom', description: 'Your own primaries, white point and gamma' },
+];
+
+interface SettingSelectProps<T extends string> {
+  label: string;
+  value: T;
+  options: SettingOption<T>[];
+  onChange: (value: T) => void;
+}
+
+function SettingSelect<T extends string>({ label, value, options, onChange }: SettingSelectProps<T>) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-foreground">{label}</label>
+      <Select value={value} onValueChange={(newValue) => onChange(newValue as T)}>
+        <SelectTrigger className="w-full bg-card border-border hover:bg-muted transition-smooth">
+          <SelectValue placeholder={`Select ${label.toLowerCase()}`} />
+        </SelectTrigger>
+        <SelectContent className="bg-popover border-border">
+          {options.map((option) => (
+            <SelectItem
+              key={option.value}
+              value={option.value}
+              className="hover:bg-muted focus:bg-muted cursor-pointer"
+            >
+              <div className="flex flex-col">
+                <span className="font-medium">{option.label}</span>
+                <span className="text-xs text-muted-foreground">{option.description}</span>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface ChromaticityInputProps {
+  label: string;
+  value: Chromaticity;
+  onChange: (value: Chromaticity) => void;
+}
+
+function ChromaticityInput({ label, value, onChange }: ChromaticityInputProps) {
+  const update = (key: keyof Chromaticity, raw: string) => {
+    const parsed = parseFloat(raw);
+    // y = 0 would put the color at infinity
+    if (!isNaN(parsed) && parsed > 0 && parsed < 1) onChange({ ...value, [key]: parsed });
+  };
+
+  return (
+    <div className="grid grid-cols-[3rem_1fr_1fr] gap-2 items-center">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <Input type="number" step={0.001} value={value.x} onChange={(e) => update('x', e.target.value)} className="h-8 bg-card border-border" aria-label={`${label} x`} />
+      <Input type="number" step={0.001} value={value.y} onChange={(e) => update('y', e.target.value)} className="h-8 bg-card border-border" aria-label={`${label} y`} />
+    </div>
+  );
+}
+
+interface CustomRGBSpaceEditorProps {
+  space: RGBSpace;
+  onChange: (space: RGBSpace) => void;
+}
+
+function CustomRGBSpaceEditor({ space, onChange }: CustomRGBSpaceEditorProps) {
+  // Set when the last primaries entered were collinear; the previous space stays applied
+  const [rejected, setRejected] = useState(false);
+  const updatePrimaries = (next: RGBSpace) => {
+    const valid = hasIndependentPrimaries(next);
+    setRejected(!valid);
+    if (valid) onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[3rem_1fr_1fr] gap-2 text-xs text-muted-foreground">
+        <span></span>
+        <span>x</span>
+        <span>y</span>
+      </div>
+      <ChromaticityInput label="Red" value={space.red} onChange={(red) => updatePrimaries({ ...space, red })} />
+      <ChromaticityInput label="Green" value={space.green} onChange={(green) => updatePrimaries({ ...space, green })} />
+      <ChromaticityInput label="Blue" value={space.blue} onChange={(blue) => updatePrimaries({ ...space, blue })} />
+      <ChromaticityInput label="White" value={space.white} onChange={(white) => onChange({ ...space, white })} />
+      <div className="grid grid-cols-[3rem_1fr] gap-2 items-center">
+        <span className="text-xs text-muted-foreground">Gamma</span>
+        <Input
+          type="number"
+          step={0.1}
+          min={1}
+          value={space.gamma ?? 2.2}
+          onChange={(e) => {
+            const gamma = parseFloat(e.target.value);
+            if (gamma >= 1) onChange({ ...space, gamma });
+          }}
+          className="h-8 bg-card border-border"
+          aria-label="Gamma"
+        />
+      </div>
+      {rejected && (
+        <p className="text-xs text-destructive">
+          Those primaries lie on one line and span no gamut; the last valid space is still applied.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function ConversionSettingsPanel({ settings, onSettingsChange }: ConversionSettingsPanelProps) {
+  const update = <K extends keyof ConversionSettings>(key: K, value: ConversionSettings[K]) => {
+    onSettingsChange({ ...settings, [key]: value });
+  };
+
+  const selectRgbSpace = (id: string) => {
+    if (id === CUSTOM_RGB_SPACE_ID) {
+      // Start the custom space from the current primaries so it can be tweaked
+      update('rgbSpace', { ...settings.rgbSpace, id, name: 'Custom RGB', transfer: 'gamma', gamma: settings.rgbSpace.gamma ?? 2.2 });
+    } else {
+      update('rgbSpace', RGB_SPACES.find((space) => space.id === id) ?? RGB_SPACES[0]);
+    }
+  };
+
+  const updateViewing = <K extends keyof ViewingConditions>(key: K, value: ViewingConditions[K]) => {
+    update('viewingConditions', { ...settings.viewingConditions, [key]: value });
+  };
+
+  return (
+    <Card className="p-4 bg-card border-border">
+      <div className="flex items-center gap-2 mb-4">
+        <Settings2 className="w-4 h-4 text-primary" />
+        <h3 className="font-medium">Conversion Settings</h3>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <SettingSelect
+            label="Reference White"
+            value={settings.whitePoint}
+            options={whitePoints}
+            onChange={(value) => update('whitePoint', value)}
+          />
+          <SettingSelect
+            label="Chromatic Adaptation"
+            value={settings.adaptation}
+            options={adaptations}
+            onChange={(value) => update('adaptation', value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Applies to XYZ, xyY, LAB, LUV and LCh(uv) values, which are adapted from the sRGB D65 source. Munsell is always adapted to Illuminant C.
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <SettingSelect
+            label="YCbCr Matrix"
+            value={settings.ycbcrMatrix}
+            options={ycbcrMatrices}
+            onChange={(value) => update('ycbcrMatrix', value)}
+          />
+          <SettingSelect
+            label="YCbCr Range"
+            value={settings.ycbcrRange}
+            options={ycbcrRanges}
+            onChange={(value) => update('ycbcrRange', value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            YCbCr readouts and adjustments are 8-bit code values in this convention.
+          </p>
+        </div>
+      </div>
+
+      <div className="border-t border-border mt-6 pt-4 grid md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <SettingSelect
+            label="RGB Working Space"
+            value={settings.rgbSpace.id}
+            options={rgbSpaceOptions}
+            onChange={selectRgbSpace}
+          />
+          <p className="text-xs text-muted-foreground">
+            RGB readouts and adjustments use this space. Images are decoded as sRGB and converted through XYZ.
+          </p>
+        </div>
+        {settings.rgbSpace.id === CUSTOM_RGB_SPACE_ID && (
+          <CustomRGBSpaceEditor space={settings.rgbSpace} onChange={(space) => update('rgbSpace', space)} />
+        )}
+      </div>
+
+      <div className="border-t border-border mt-6 pt-4 grid md:grid-cols-2 gap-6">
+        <SettingSelect
+          label="Gamut Mapping"
+          value={settings.gamutMapping}
+          options={gamutMappings}
+          onChange={(value) => update('gamutMapping', value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          How adjusted colors that leave sRGB are brought back for display. Chroma reduction keeps lightness and hue at the cost of saturation; the CIE LCh variant uses the reference white above.
+        </p>
+      </div>
+
+      <div className="border-t border-border mt-6 pt-4 space-y-4">
+        <h4 className="text-sm font-medium">Viewing Conditions</h4>
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <SettingSelect
+              label="Appearance Model"
+              value={settings.viewingConditions.model}
+              options={appearanceModels}
+              onChange={(value) => updateViewing('model', value)}
+            />
+            <SettingSelect
+              label="Surround"
+              value={settings.viewingConditions.surround}
+              options={surrounds}
+              onChange={(value) => updateViewing('surround', value)}
+            />
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Adapting Luminance (cd/m²)</label>
+              <Input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={Number(settings.viewingConditions.adaptingLuminance.toFixed(2))}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (value > 0) updateViewing('adaptingLuminance', value);
+                }}
+                className="bg-card border-border"
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <label className="text-sm font-medium text-foreground">Background Luminance</label>
+                <span className="text-xs text-muted-foreground">{settings.viewingConditions.backgroundLuminance}%</span>
+              </div>
+              <Slider
+                value={[settings.viewingConditions.backgroundLuminance]}
+                onValueChange={(value) => updateViewing('backgroundLuminance', value[0])}
+                min={1}
+                max={100}
+                step={1}
+                className="w-full"
+              />
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Used by the CAM16 and CAM16-UCS models. Typical values: 4 cd/m² for a monitor in a 64 lux room, 20% grey background.
+        </p>
+      </div>
+
+      <div className="border-t border-border mt-6 pt-4 space-y-2">
+        <div className="flex justify-between items-center">
+          <label className="text-sm font-medium text-foreground">HDR Peak Luminance</label>
+          <span className="text-xs text-muted-foreground">{settings.peakLuminance} cd/m²</span>
+        </div>
+        <Slider
+          value={[settings.peakLuminance]}
+          onValueChange={(value) => update('peakLuminance', value[0])}
+          min={100}
+          max={10000}
+          step={1}
+          className="w-full"
+        />
+        <p className="text-xs text-muted-foreground">
+          PQ, HLG, ICtCp and JzAzBz treat image white as this luminance. Their previews are tone-mapped so this peak shows as SDR white.
+        </p>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { ConversionSettings, RGBColor, defaultConversionSettings } from "@/utils/colorConversions";
+import { getColorSpaces } from "@/utils/colorSpaces";
+import { Color, ColorSpaceId } from "@/utils/color";
+import { CSS_COLOR_FORMATS, formatCssColor, parseCssColor } from "@/utils/cssColor";
+import { Code, Copy } from "lucide-react";
+
+interface CssColorConverterProps {
+  conversionSettings?: ConversionSettings;
+  // Pixel picked in the workspace; replaces the field's contents when it changes
+  sampledColor?: RGBColor | null;
+}
+
+// Readout of a color in one model; appearance models have no value for some imaginary colors
+const describeInModel = (color: Color, space: ColorSpaceId) => {
+  try {
+    return color.to(space).format(1);
+  } catch (error) {
+    if (error instanceof RangeError) return 'Outside the model';
+    throw error;
+  }
+};
+
+export function CssColorConverter({ conversionSettings = defaultConversionSettings, sampledColor }: CssColorConverterProps) {
+  const [text, setText] = useState('rebeccapurple');
+
+  useEffect(() => {
+    if (sampledColor) setText(formatCssColor(sampledColor, 'hex'));
+  }, [sampledColor]);
+
+  const css = parseCssColor(text);
+  const color = css && Color.fromRgb(css.rgb, conversionSettings);
+
+  const copy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast({ title: "Copied", description: value });
+    } catch (error) {
+      toast({ title: "Could not copy", description: value, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="p-4 bg-card border-border">
+      <div className="flex items-center gap-2 mb-4">
+        <Code className="w-4 h-4 text-primary" />
+        <h3 className="font-medium">CSS Color Converter</h3>
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center gap-3">
+            <Input
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="#663399, oklch(0.7 0.15 150), color(display-p3 1 0 0)"
+              className="bg-card border-border font-mono"
+              aria-label="CSS color"
+            />
+            <div
+              className="w-10 h-10 shrink-0 rounded-md border border-border"
+              style={{ backgroundColor: css ? formatCssColor(css.rgb, 'oklch', css.alpha) : 'transparent' }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {!color
+              ? 'Type or paste any CSS color: hex, rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch(), color() or a color name. Click a pixel in the workspace to load it here.'
+              : color.inGamut()
+                ? 'Inside the sRGB gamut'
+                : 'Outside the sRGB gamut - hex, rgb(), hsl() and hwb() are clipped'}
+          </p>
+        </div>
+
+        {css && color && (
+          <>
+            <div className="space-y-1">
+              <div className="text-sm font-medium">CSS</div>
+              {CSS_COLOR_FORMATS.map(({ id, label }) => {
+                const value = formatCssColor(css.rgb, id, css.alpha);
+                return (
+                  <div key={id} className="grid grid-cols-[7.5rem_1fr_auto] items-center gap-2">
+                    <span className="text-xs text-muted-foreground">{label}</span>
+                    <code className="text-xs font-mono truncate" title={value}>{value}</code>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => copy(value)} aria-label={`Copy ${label}`}>
+                      <Copy className="w-3 h-3" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-sm font-medium">Color Models</div>
+              {getColorSpaces().map((space) => (
+                <div key={space.id} className="grid grid-cols-[7.5rem_1fr] items-center gap-2">
+                  <span className="text-xs text-muted-foreground">{space.label}</span>
+                  <code className="text-xs font-mono truncate" title={space.description}>
+                    {describeInModel(color, space.id as ColorSpaceId)}
+                  </code>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
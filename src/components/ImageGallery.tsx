@@ -1,7 +1,9 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { Card } from "@/components/ui/card";
-import { ColorModel, getColorInModel, transformImageData } from "@/utils/colorConversions";
-import { ColorAdjustments } from "@/components/ColorAdjustmentPanel";
+import { ConversionSettings, RGBColor, defaultConversionSettings } from "@/utils/colorConversions";
+import { ColorModel, getColorInModel, transformImageData } from "@/utils/colorSpaces";
+import { ColorVisionSettings, applyColorVision, defaultColorVisionSettings, hasColorVisionEffect } from "@/utils/colorVision";
+import { ColorNameDictionary, formatColorName, nearestColorName } from "@/utils/colorNames";
 import { Upload } from "lucide-react";
 import demoBalaji from "@/assets/demo-balaji.jpg";
 import demoShiva from "@/assets/demo-shiva.jpg";
@@ -11,6 +13,9 @@ import demoKrishna from "@/assets/demo-krishna.jpg";
 interface ImageGalleryProps {
   selectedModel: ColorModel;
   showOriginal: boolean;
+  conversionSettings?: ConversionSettings;
+  colorVision?: ColorVisionSettings;
+  colorNameDictionaries?: ColorNameDictionary[];
 }
 
 interface ImageInfo {
@@ -27,11 +32,31 @@ const demoImages: ImageInfo[] = [
   { id: '4', src: demoKrishna, title: 'Lord Krishna', type: 'demo' },
 ];
 
-export function ImageGallery({ selectedModel, showOriginal }: ImageGalleryProps) {
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+// Pixel of the image file itself, before the model view and vision simulation; throws for tainted images
+function readSourcePixel(image: HTMLImageElement, x: number, y: number): RGBColor | null {
+  if (!scratchCanvas) {
+    scratchCanvas = document.createElement('canvas');
+    scratchCanvas.width = 1;
+    scratchCanvas.height = 1;
+  }
+  const ctx = scratchCanvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.clearRect(0, 0, 1, 1);
+  ctx.drawImage(image, x, y, 1, 1, 0, 0, 1, 1);
+  const pixel = ctx.getImageData(0, 0, 1, 1).data;
+  return { r: pixel[0], g: pixel[1], b: pixel[2] };
+}
+
+export function ImageGallery({ selectedModel, showOriginal, conversionSettings = defaultConversionSettings, colorVision = defaultColorVisionSettings, colorNameDictionaries = [] }: ImageGalleryProps) {
   const [images, setImages] = useState<ImageInfo[]>(demoImages);
   const [hoveredImage, setHoveredImage] = useState<string | null>(null);
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
   const [colorInfo, setColorInfo] = useState<string>('');
+  // Nearest named color for the hovered pixel, shown under the model readout
+  const [colorName, setColorName] = useState<string>('');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRefs = useRef<{ [key: string]: HTMLCanvasElement }>({});
   const imageRefs = useRef<{ [key: string]: HTMLImageElement }>({});
@@ -74,14 +99,20 @@ export function ImageGallery({ selectedModel, showOriginal }: ImageGalleryProps)
       const imageData = ctx.getImageData(x, y, 1, 1);
       const pixel = imageData.data;
       const rgb = { r: pixel[0], g: pixel[1], b: pixel[2] };
-      const colorValue = getColorInModel(rgb, selectedModel);
-      
+      const colorValue = getColorInModel(rgb, selectedModel, 0, conversionSettings);
+
+      // Name the color in the image, not the false-color or simulated pixel drawn for it
+      const image = imageRefs.current[imageId];
+      const source = image ? readSourcePixel(image, x, y) : null;
+      const match = source && nearestColorName(source, colorNameDictionaries);
+
       setColorInfo(colorValue);
+      setColorName(match ? formatColorName(match) : '');
       setMousePos({ x: event.clientX, y: event.clientY });
     } catch (error) {
       // Ignore canvas security errors
     }
-  }, [selectedModel]);
+  }, [selectedModel, conversionSettings, colorNameDictionaries]);
 
   const drawImageOnCanvas = useCallback((image: HTMLImageElement, canvas: HTMLCanvasElement) => {
     const ctx = canvas.getContext('2d');
@@ -92,12 +123,14 @@ export function ImageGallery({ selectedModel, showOriginal }: ImageGalleryProps)
     ctx.drawImage(image, 0, 0);
 
     // Gallery images always show original or color model view only (no adjustments)
-    if (!showOriginal) {
+    if (!showOriginal || hasColorVisionEffect(colorVision)) {
       const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const transformedData = transformImageData(imageData, selectedModel);
-      ctx.putImageData(transformedData, 0, 0);
+      const transformedData = showOriginal
+        ? imageData
+        : transformImageData(imageData, selectedModel, undefined, conversionSettings);
+      ctx.putImageData(applyColorVision(transformedData, colorVision), 0, 0);
     }
-  }, [showOriginal, selectedModel]);
+  }, [showOriginal, selectedModel, conversionSettings, colorVision]);
 
   // Redraw all canvases when model or view mode changes
   useEffect(() => {
@@ -198,6 +231,7 @@ export function ImageGallery({ selectedModel, showOriginal }: ImageGalleryProps)
           }}
         >
           {colorInfo}
+          {colorName && <div className="text-muted-foreground">{colorName}</div>}
         </div>
       )}
     </div>
@@ -1,23 +1,145 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { Card } from "@/components/ui/card";
-import { ColorModel, getColorInModel, transformImageData } from "@/utils/colorConversions";
-import { ColorAdjustments } from "@/components/ColorAdjustmentPanel";
-import { Upload, X } from "lucide-react";
+import { ConversionSettings, RGBColor, WCAG_CONTRAST_LEVELS, defaultConversionSettings } from "@/utils/colorConversions";
+import { ColorAdjustments, ColorModel, getColorInModel, transformImageDataWithGamut } from "@/utils/colorSpaces";
+import { ColorVisionSettings, applyColorVision, defaultColorVisionSettings, hasColorVisionEffect } from "@/utils/colorVision";
+import { ColorNameDictionary, formatColorName, nearestColorName } from "@/utils/colorNames";
+import { LEGIBILITY_PERCENTILE, LegibilityReport, analyzeTextLegibility, scrimColorFor } from "@/utils/textLegibility";
+import { parseCssColor } from "@/utils/cssColor";
+import { TriangleAlert, Type, Upload, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { TextBox, TextLegibilityPanel } from "@/components/TextLegibilityPanel";
+
+// Pixels behind the current drawing, for scopes and histograms
+export interface WorkspaceFrame {
+  original: ImageData;
+  // After the adjustments, before the model visualization and vision simulation
+  adjusted: ImageData;
+}
 
 interface ImageWorkspaceProps {
   selectedModel: ColorModel;
   showOriginal: boolean;
   adjustments?: ColorAdjustments;
+  conversionSettings?: ConversionSettings;
+  // Color vision deficiency simulation or daltonization applied to what is drawn
+  colorVision?: ColorVisionSettings;
+  // Dictionaries searched for the hover tooltip's color name; none hides the name
+  colorNameDictionaries?: ColorNameDictionary[];
   onImageDrop?: (imageUrl: string) => void;
+  // Called after each draw, and with null when the workspace is cleared
+  onFrame?: (frame: WorkspaceFrame | null) => void;
+  // Called with the adjusted pixel when the image is clicked
+  onColorSample?: (rgb: RGBColor) => void;
+  // Pixels to pick out, one 0/1 flag per canvas pixel; the rest of the image is dimmed
+  pixelHighlight?: Uint8Array | null;
+}
+
+// Canvas pixel under a client position
+function canvasPixelAt(canvas: HTMLCanvasElement, position: { clientX: number; clientY: number }): { x: number; y: number } {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: Math.floor((position.clientX - rect.left) * (canvas.width / rect.width)),
+    y: Math.floor((position.clientY - rect.top) * (canvas.height / rect.height)),
+  };
+}
+
+// Displayed pixel at a client position, or null without a canvas or for tainted images
+function readPixel(canvas: HTMLCanvasElement | null, position: { clientX: number; clientY: number }): RGBColor | null {
+  const ctx = canvas?.getContext('2d');
+  if (!canvas || !ctx) return null;
+
+  const { x, y } = canvasPixelAt(canvas, position);
+  try {
+    const pixel = ctx.getImageData(x, y, 1, 1).data;
+    return { r: pixel[0], g: pixel[1], b: pixel[2] };
+  } catch (error) {
+    // Ignore canvas security errors
+    return null;
+  }
+}
+
+// Copy of a rectangle of `image`
+function cropImageData(image: ImageData, left: number, top: number, width: number, height: number): ImageData {
+  const region = new ImageData(width, height);
+  for (let row = 0; row < height; row++) {
+    const start = ((top + row) * image.width + left) * 4;
+    region.data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return region;
+}
+
+// Pixel of `frame` under a client position on the canvas it was drawn to, or null outside it
+function readFramePixel(canvas: HTMLCanvasElement | null, frame: ImageData | null, position: { clientX: number; clientY: number }): RGBColor | null {
+  if (!canvas || !frame || frame.width !== canvas.width || frame.height !== canvas.height) return null;
+
+  const { x, y } = canvasPixelAt(canvas, position);
+  if (x < 0 || y < 0 || x >= frame.width || y >= frame.height) return null;
+  const i = (y * frame.width + x) * 4;
+  return { r: frame.data[i], g: frame.data[i + 1], b: frame.data[i + 2] };
+}
+
+const defaultTextBox: TextBox = {
+  text: 'Sample caption',
+  color: '#ffffff',
+  fontSize: 24,
+  bold: true,
+  x: 0.1,
+  y: 0.1,
+  scrimOpacity: 0,
+  targetRatio: WCAG_CONTRAST_LEVELS.AA.normal,
+  showFailing: true,
+};
+
+// Scrim behind the caption as a CSS background, the same layer the legibility check assumes
+function formatScrim(textBox: TextBox): string {
+  const text = parseCssColor(textBox.color)?.rgb;
+  if (!text || textBox.scrimOpacity <= 0) return 'transparent';
+  const { r, g, b } = scrimColorFor(text);
+  return `rgba(${r}, ${g}, ${b}, ${textBox.scrimOpacity})`;
+}
+
+// Diagonal magenta hatching over the pixels flagged in `mask`, on an otherwise transparent overlay
+function hatchPixels(overlay: ImageData, mask: Uint8Array) {
+  const { data, width } = overlay;
+  for (let pixel = 0; pixel < mask.length; pixel++) {
+    if (!mask[pixel]) continue;
+    const x = pixel % width;
+    const y = (pixel - x) / width;
+    if ((x + y) % 6 < 2) {
+      data[pixel * 4] = 255;
+      data[pixel * 4 + 2] = 255;
+      data[pixel * 4 + 3] = 255;
+    }
+  }
 }
 
-export function ImageWorkspace({ selectedModel, showOriginal, adjustments, onImageDrop }: ImageWorkspaceProps) {
+export function ImageWorkspace({ selectedModel, showOriginal, adjustments, conversionSettings = defaultConversionSettings, colorVision = defaultColorVisionSettings, colorNameDictionaries = [], onImageDrop, onFrame, onColorSample, pixelHighlight = null }: ImageWorkspaceProps) {
   const [workspaceImage, setWorkspaceImage] = useState<string | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
   const [colorInfo, setColorInfo] = useState<string>('');
+  // Nearest named color for the hovered pixel, shown under the model readout
+  const [colorName, setColorName] = useState<string>('');
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
+  const [showGamutOverlay, setShowGamutOverlay] = useState(false);
+  // Share of pixels pushed out of sRGB by the current adjustments
+  const [outOfGamutShare, setOutOfGamutShare] = useState(0);
+  // Caption dragged over the image to check its legibility, and what it measured
+  const [textBox, setTextBox] = useState<TextBox | null>(null);
+  const [legibility, setLegibility] = useState<LegibilityReport | null>(null);
+  // Bumped after each draw so the overlays and the legibility check follow the new pixels
+  const [drawCount, setDrawCount] = useState(0);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const gamutRef = useRef<HTMLCanvasElement>(null);
+  // Pixels of the last draw after the adjustments, before the visualization, vision simulation and overlays
+  const frameRef = useRef<ImageData | null>(null);
+  // Pixels of the last draw that the adjustments pushed out of sRGB
+  const outOfGamutRef = useRef<Uint8Array | null>(null);
+  const highlightRef = useRef<HTMLCanvasElement>(null);
+  const selectionRef = useRef<HTMLCanvasElement>(null);
+  const textBoxRef = useRef<HTMLDivElement>(null);
+  // Pointer offset inside the text box while it is dragged
+  const dragOffsetRef = useRef<{ x: number; y: number } | null>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -50,12 +172,26 @@ export function ImageWorkspace({ selectedModel, showOriginal, adjustments, onIma
     // Show transformations if:
     // 1. Not showing original (color model transformation), OR
     // 2. Showing original but have adjustments (color value adjustments)
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
     if (!showOriginal || hasAdjustments) {
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const transformedData = transformImageData(imageData, selectedModel, adjustments);
-      ctx.putImageData(transformedData, 0, 0);
+      const { imageData: transformedData, adjusted, outOfGamut, outOfGamutCount } =
+        transformImageDataWithGamut(imageData, selectedModel, adjustments, conversionSettings);
+      ctx.putImageData(applyColorVision(transformedData, colorVision), 0, 0);
+      frameRef.current = hasAdjustments ? adjusted : imageData;
+      outOfGamutRef.current = outOfGamut;
+      setOutOfGamutShare(outOfGamutCount / outOfGamut.length);
+      onFrame?.({ original: imageData, adjusted: hasAdjustments ? adjusted : imageData });
+    } else {
+      if (hasColorVisionEffect(colorVision)) {
+        ctx.putImageData(applyColorVision(imageData, colorVision), 0, 0);
+      }
+      frameRef.current = imageData;
+      outOfGamutRef.current = null;
+      setOutOfGamutShare(0);
+      onFrame?.({ original: imageData, adjusted: imageData });
     }
-  }, [showOriginal, selectedModel, adjustments]);
+    setDrawCount((count) => count + 1);
+  }, [showOriginal, selectedModel, adjustments, conversionSettings, colorVision, onFrame]);
 
   // Redraw canvas when adjustments, model, or view mode changes
   useEffect(() => {
@@ -66,6 +202,113 @@ export function ImageWorkspace({ selectedModel, showOriginal, adjustments, onIma
     }
   }, [drawImageOnCanvas, adjustments, selectedModel, showOriginal, workspaceImage]);
 
+  // Hatch the out-of-gamut pixels above the image, leaving the image pixels untouched
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const gamut = gamutRef.current;
+    const ctx = gamut?.getContext('2d');
+    if (!canvas || !gamut || !ctx) return;
+
+    gamut.width = canvas.width;
+    gamut.height = canvas.height;
+    const outOfGamut = outOfGamutRef.current;
+    if (!showGamutOverlay || !outOfGamut || outOfGamut.length !== canvas.width * canvas.height) return;
+
+    const hatching = ctx.createImageData(canvas.width, canvas.height);
+    hatchPixels(hatching, outOfGamut);
+    ctx.putImageData(hatching, 0, 0);
+  }, [showGamutOverlay, drawCount, workspaceImage]);
+
+  // Measure the adjusted pixels under the text box and mark the failing ones
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const highlight = highlightRef.current;
+    const box = textBoxRef.current;
+    const frame = frameRef.current;
+    const highlightCtx = highlight?.getContext('2d');
+    if (!canvas || !highlight || !highlightCtx) return;
+
+    highlight.width = canvas.width;
+    highlight.height = canvas.height;
+    const text = textBox && parseCssColor(textBox.color)?.rgb;
+    if (!box || !text || !frame || frame.width !== canvas.width || frame.height !== canvas.height) {
+      setLegibility(null);
+      return;
+    }
+
+    // Box bounds in canvas pixels, clipped to the image
+    const canvasRect = canvas.getBoundingClientRect();
+    const boxRect = box.getBoundingClientRect();
+    const scale = canvas.width / canvasRect.width;
+    const left = Math.max(0, Math.floor((boxRect.left - canvasRect.left) * scale));
+    const top = Math.max(0, Math.floor((boxRect.top - canvasRect.top) * scale));
+    const right = Math.min(canvas.width, Math.ceil((boxRect.right - canvasRect.left) * scale));
+    const bottom = Math.min(canvas.height, Math.ceil((boxRect.bottom - canvasRect.top) * scale));
+    if (right <= left || bottom <= top) {
+      setLegibility(null);
+      return;
+    }
+
+    const region = cropImageData(frame, left, top, right - left, bottom - top);
+    const report = analyzeTextLegibility(region, text, {
+      targetRatio: textBox.targetRatio,
+      percentile: LEGIBILITY_PERCENTILE,
+      scrim: scrimColorFor(text),
+      scrimOpacity: textBox.scrimOpacity,
+    });
+    setLegibility(report);
+
+    if (textBox.showFailing && report.failingShare > 0) {
+      const marks = highlightCtx.createImageData(region.width, region.height);
+      report.failing.forEach((failing, pixel) => {
+        if (!failing) return;
+        marks.data[pixel * 4] = 255;
+        marks.data[pixel * 4 + 3] = 140;
+      });
+      highlightCtx.putImageData(marks, left, top);
+    }
+  }, [textBox, drawCount, workspaceImage]);
+
+  // Dim every pixel outside the highlight, e.g. a cluster picked on the chromaticity diagram
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const selection = selectionRef.current;
+    const ctx = selection?.getContext('2d');
+    if (!canvas || !selection || !ctx) return;
+
+    selection.width = canvas.width;
+    selection.height = canvas.height;
+    if (!pixelHighlight || pixelHighlight.length !== canvas.width * canvas.height) return;
+
+    const shade = ctx.createImageData(canvas.width, canvas.height);
+    pixelHighlight.forEach((highlighted, pixel) => {
+      if (!highlighted) shade.data[pixel * 4 + 3] = 190;
+    });
+    ctx.putImageData(shade, 0, 0);
+  }, [pixelHighlight, drawCount, workspaceImage]);
+
+  const handleTextBoxPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    dragOffsetRef.current = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handleTextBoxPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const offset = dragOffsetRef.current;
+    const canvas = canvasRef.current;
+    if (!offset || !canvas || !textBox) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const box = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - offset.x - rect.left) / rect.width;
+    const y = (e.clientY - offset.y - rect.top) / rect.height;
+    setTextBox({
+      ...textBox,
+      x: Math.max(0, Math.min(1 - box.width / rect.width, x)),
+      y: Math.max(0, Math.min(1 - box.height / rect.height, y)),
+    });
+  };
+
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(true);
@@ -138,33 +381,30 @@ export function ImageWorkspace({ selectedModel, showOriginal, adjustments, onIma
   };
 
   const handleInteraction = useCallback((event: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
     const position = getEventPosition(event);
-    const rect = canvas.getBoundingClientRect();
-    const x = Math.floor((position.clientX - rect.left) * (canvas.width / rect.width));
-    const y = Math.floor((position.clientY - rect.top) * (canvas.height / rect.height));
+    const rgb = readPixel(canvasRef.current, position);
+    if (!rgb) return;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    setColorInfo(getColorInModel(rgb, selectedModel, 0, conversionSettings));
+    // Name the adjusted color, not the false-color or simulated pixel drawn for it
+    const named = readFramePixel(canvasRef.current, frameRef.current, position);
+    const match = named && nearestColorName(named, colorNameDictionaries);
+    setColorName(match ? formatColorName(match) : '');
+    setMousePos({ x: position.clientX, y: position.clientY });
+  }, [selectedModel, conversionSettings, colorNameDictionaries]);
 
-    try {
-      const imageData = ctx.getImageData(x, y, 1, 1);
-      const pixel = imageData.data;
-      const rgb = { r: pixel[0], g: pixel[1], b: pixel[2] };
-      const colorValue = getColorInModel(rgb, selectedModel);
-      
-      setColorInfo(colorValue);
-      setMousePos({ x: position.clientX, y: position.clientY });
-    } catch (error) {
-      // Ignore canvas security errors
-    }
-  }, [selectedModel]);
+  const handleSample = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    // The adjusted pixel, not the visualization, vision simulation or overlays drawn over it
+    const rgb = readFramePixel(canvasRef.current, frameRef.current, getEventPosition(event));
+    if (rgb) onColorSample?.(rgb);
+  }, [onColorSample]);
 
   const clearWorkspace = () => {
     setWorkspaceImage(null);
     setColorInfo('');
+    setTextBox(null);
+    frameRef.current = null;
+    onFrame?.(null);
   };
 
   return (
@@ -190,15 +430,54 @@ export function ImageWorkspace({ selectedModel, showOriginal, adjustments, onIma
       >
         {workspaceImage ? (
           <div className="relative w-full h-full flex items-center justify-center">
-            <canvas
-              ref={canvasRef}
-              className="max-w-full max-h-[300px] object-contain cursor-crosshair rounded-lg touch-manipulation"
-              onMouseMove={handleInteraction}
-              onTouchMove={handleInteraction}
-              onMouseLeave={() => setColorInfo('')}
-              onTouchEnd={() => setColorInfo('')}
-              style={{ imageRendering: 'pixelated' }}
-            />
+            <div className="relative">
+              <canvas
+                ref={canvasRef}
+                className="block max-w-full max-h-[300px] object-contain cursor-crosshair rounded-lg touch-manipulation"
+                onMouseMove={handleInteraction}
+                onClick={handleSample}
+                onTouchMove={handleInteraction}
+                onMouseLeave={() => setColorInfo('')}
+                onTouchEnd={() => setColorInfo('')}
+                style={{ imageRendering: 'pixelated' }}
+              />
+              <canvas
+                ref={gamutRef}
+                className="absolute inset-0 w-full h-full pointer-events-none rounded-lg"
+                style={{ imageRendering: 'pixelated' }}
+              />
+              <canvas
+                ref={selectionRef}
+                className="absolute inset-0 w-full h-full pointer-events-none rounded-lg"
+                style={{ imageRendering: 'pixelated' }}
+              />
+
+              {/* Draggable caption for the legibility check */}
+              {textBox && (
+                <div
+                  ref={textBoxRef}
+                  className="absolute px-1 cursor-move select-none whitespace-nowrap touch-none"
+                  style={{
+                    left: `${textBox.x * 100}%`,
+                    top: `${textBox.y * 100}%`,
+                    color: textBox.color,
+                    fontSize: `${textBox.fontSize}px`,
+                    fontWeight: textBox.bold ? 700 : 400,
+                    backgroundColor: formatScrim(textBox),
+                  }}
+                  onPointerDown={handleTextBoxPointerDown}
+                  onPointerMove={handleTextBoxPointerMove}
+                  onPointerUp={() => { dragOffsetRef.current = null; }}
+                >
+                  {textBox.text || '\u00a0'}
+                </div>
+              )}
+              <canvas
+                ref={highlightRef}
+                className="absolute inset-0 w-full h-full pointer-events-none rounded-lg"
+                style={{ imageRendering: 'pixelated' }}
+              />
+            </div>
             <img
               ref={imageRef}
               src={workspaceImage}
@@ -222,6 +501,30 @@ export function ImageWorkspace({ selectedModel, showOriginal, adjustments, onIma
               <X className="w-4 h-4" />
             </Button>
             
+            {/* Out-of-gamut overlay toggle */}
+            <Button
+              variant={showGamutOverlay ? 'default' : 'secondary'}
+              size="sm"
+              className="absolute bottom-2 left-2 h-7 text-xs"
+              onClick={() => setShowGamutOverlay(!showGamutOverlay)}
+              title="Hatch pixels that the adjustments pushed outside sRGB"
+            >
+              <TriangleAlert className="w-3 h-3 mr-1" />
+              {showGamutOverlay ? `Out of gamut: ${(outOfGamutShare * 100).toFixed(1)}%` : 'Show out of gamut'}
+            </Button>
+
+            {/* Text legibility toggle */}
+            <Button
+              variant={textBox ? 'default' : 'secondary'}
+              size="sm"
+              className="absolute bottom-2 right-2 h-7 text-xs"
+              onClick={() => setTextBox(textBox ? null : defaultTextBox)}
+              title="Drag a caption over the image and check its contrast"
+            >
+              <Type className="w-3 h-3 mr-1" />
+              {textBox ? 'Remove text' : 'Test text'}
+            </Button>
+
             {/* Color Model Badge */}
             {!showOriginal && selectedModel !== 'RGB' && (
               <div className="absolute top-2 left-2 px-2 py-1 bg-primary/90 text-primary-foreground text-xs font-medium rounded-full">
@@ -258,6 +561,15 @@ export function ImageWorkspace({ selectedModel, showOriginal, adjustments, onIma
         />
       </Card>
 
+      {workspaceImage && textBox && (
+        <TextLegibilityPanel
+          textBox={textBox}
+          onChange={setTextBox}
+          onClose={() => setTextBox(null)}
+          report={legibility}
+        />
+      )}
+
       {/* Color Tooltip */}
       {colorInfo && workspaceImage && (
         <div
@@ -268,6 +580,7 @@ export function ImageWorkspace({ selectedModel, showOriginal, adjustments, onIma
           }}
         >
           {colorInfo}
+          {colorName && <div className="text-muted-foreground">{colorName}</div>}
         </div>
       )}
     </div>
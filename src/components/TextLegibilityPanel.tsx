@@ -0,0 +1,186 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { WCAG_CONTRAST_LEVELS } from "@/utils/colorConversions";
+import { LEGIBILITY_PERCENTILE, LegibilityReport } from "@/utils/textLegibility";
+import { Type, X } from "lucide-react";
+
+// Caption dragged over the workspace image; x and y are fractions of the canvas size
+export interface TextBox {
+  text: string;
+  // Hex color of the text
+  color: string;
+  // CSS pixels on the displayed canvas
+  fontSize: number;
+  bold: boolean;
+  x: number;
+  y: number;
+  // 0-1, black behind light text and white behind dark text
+  scrimOpacity: number;
+  targetRatio: number;
+  showFailing: boolean;
+}
+
+const targets = [
+  { label: 'AA', ratio: WCAG_CONTRAST_LEVELS.AA.normal },
+  { label: 'AA large', ratio: WCAG_CONTRAST_LEVELS.AA.large },
+  { label: 'AAA', ratio: WCAG_CONTRAST_LEVELS.AAA.normal },
+];
+
+interface TextLegibilityPanelProps {
+  textBox: TextBox;
+  onChange: (textBox: TextBox) => void;
+  onClose: () => void;
+  report: LegibilityReport | null;
+}
+
+export function TextLegibilityPanel({ textBox, onChange, onClose, report }: TextLegibilityPanelProps) {
+  const update = <K extends keyof TextBox>(key: K, value: TextBox[K]) => {
+    onChange({ ...textBox, [key]: value });
+  };
+
+  const passes = report && report.worstRatio >= textBox.targetRatio;
+  const percentileLabel = `${Math.round(LEGIBILITY_PERCENTILE * 100)}th percentile`;
+
+  return (
+    <Card className="mt-4 p-4 bg-card border-border">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Type className="w-4 h-4 text-primary" />
+          <h3 className="font-medium">Text Legibility</h3>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose} aria-label="Remove the text box">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Input
+              value={textBox.text}
+              onChange={(e) => update('text', e.target.value)}
+              placeholder="Sample text"
+              className="bg-card border-border"
+              aria-label="Sample text"
+            />
+            <Input
+              type="color"
+              value={textBox.color}
+              onChange={(e) => update('color', e.target.value)}
+              className="w-12 shrink-0 p-1 bg-card border-border"
+              aria-label="Text color"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-medium text-foreground">Font Size</label>
+              <span className="text-xs text-muted-foreground">{textBox.fontSize}px</span>
+            </div>
+            <Slider
+              value={[textBox.fontSize]}
+              onValueChange={(value) => update('fontSize', value[0])}
+              min={10}
+              max={72}
+              step={1}
+              className="w-full"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={textBox.bold} onCheckedChange={(checked) => update('bold', checked)} />
+              Bold
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={textBox.showFailing} onCheckedChange={(checked) => update('showFailing', checked)} />
+              Highlight failing pixels
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-medium text-foreground">Scrim Opacity</label>
+              <span className="text-xs text-muted-foreground">{Math.round(textBox.scrimOpacity * 100)}%</span>
+            </div>
+            <Slider
+              value={[textBox.scrimOpacity * 100]}
+              onValueChange={(value) => update('scrimOpacity', value[0] / 100)}
+              min={0}
+              max={100}
+              step={1}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium">Target</span>
+            <div className="flex gap-1">
+              {targets.map(({ label, ratio }) => (
+                <Button
+                  key={label}
+                  variant={textBox.targetRatio === ratio ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => update('targetRatio', ratio)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {report && report.pixelCount > 0 ? (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                {[
+                  { label: 'Worst WCAG', value: `${report.worstRatio.toFixed(2)}:1` },
+                  { label: `WCAG ${percentileLabel}`, value: `${report.percentileRatio.toFixed(2)}:1` },
+                  { label: 'Worst APCA', value: `Lc ${report.worstLc.toFixed(1)}` },
+                  { label: `APCA ${percentileLabel}`, value: `Lc ${report.percentileLc.toFixed(1)}` },
+                ].map(({ label, value }) => (
+                  <div key={label} className="rounded-md border border-border p-2 text-center">
+                    <div className="text-[10px] text-muted-foreground">{label}</div>
+                    <div className="text-sm font-semibold font-mono">{value}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={passes ? 'default' : 'destructive'}>{passes ? 'Pass' : 'Fail'}</Badge>
+                <span className="text-xs text-muted-foreground">
+                  {(report.failingShare * 100).toFixed(1)}% of the pixels under the text are below {textBox.targetRatio}:1
+                </span>
+              </div>
+              {!passes && (
+                report.suggestedScrimOpacity !== null ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 text-xs"
+                    onClick={() => update('scrimOpacity', report.suggestedScrimOpacity ?? 0)}
+                  >
+                    Use a {Math.round(report.suggestedScrimOpacity * 100)}% scrim
+                  </Button>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    No scrim makes this text color pass; pick a lighter or darker text color.
+                  </p>
+                )
+              )}
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Drag the text box over the image to measure the pixels behind it.
+            </p>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+}
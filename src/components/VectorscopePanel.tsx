@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ConversionSettings, defaultConversionSettings } from "@/utils/colorConversions";
+import { SKIN_TONE_ANGLE, VectorscopePlane, renderVectorscope, vectorscopeDensity, vectorscopeTargets } from "@/utils/vectorscope";
+import type { WorkspaceFrame } from "@/components/ImageWorkspace";
+import { Crosshair } from "lucide-react";
+
+interface VectorscopePanelProps {
+  frame: WorkspaceFrame | null;
+  conversionSettings?: ConversionSettings;
+}
+
+const GRID_SIZE = 256;
+
+// Half-width of a 75% target box, in plot units
+const TARGET_BOX = 0.05;
+
+const toHex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+
+export function VectorscopePanel({ frame, conversionSettings = defaultConversionSettings }: VectorscopePanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [plane, setPlane] = useState<VectorscopePlane>('cbcr');
+  const [colorize, setColorize] = useState(false);
+
+  const density = useMemo(
+    () => (frame ? vectorscopeDensity(frame.adjusted, plane, conversionSettings, GRID_SIZE) : null),
+    [frame, plane, conversionSettings]
+  );
+  const targets = useMemo(() => vectorscopeTargets(plane, conversionSettings), [plane, conversionSettings]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !density) return;
+    ctx.putImageData(renderVectorscope(density, colorize), 0, 0);
+  }, [density, colorize]);
+
+  if (!density) return null;
+
+  const skinAngle = SKIN_TONE_ANGLE * Math.PI / 180;
+
+  return (
+    <Card className="mt-4 p-4 bg-card border-border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <Crosshair className="w-4 h-4 text-primary" />
+          <h3 className="font-medium">Vectorscope</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={plane}
+            onValueChange={(value) => value && setPlane(value as VectorscopePlane)}
+          >
+            <ToggleGroupItem value="cbcr" className="h-7 px-2 text-xs">Cb/Cr</ToggleGroupItem>
+            <ToggleGroupItem value="uv" className="h-7 px-2 text-xs">U/V</ToggleGroupItem>
+          </ToggleGroup>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={colorize} onCheckedChange={setColorize} />
+            Color
+          </label>
+        </div>
+      </div>
+
+      <div className="relative mx-auto w-full max-w-xs aspect-square rounded-full bg-black">
+        <canvas ref={canvasRef} width={GRID_SIZE} height={GRID_SIZE} className="absolute inset-0 w-full h-full" />
+        {/* Graticule in plot units: +-1 is the circle, y is flipped so +Cr/+V points up */}
+        <svg viewBox="-1.05 -1.05 2.1 2.1" className="absolute inset-0 w-full h-full pointer-events-none">
+          <g stroke="rgba(255,255,255,0.35)" strokeWidth={0.006} fill="none">
+            <circle r={1} />
+            <circle r={0.5} strokeDasharray="0.02 0.02" />
+            <line x1={-1} y1={0} x2={1} y2={0} />
+            <line x1={0} y1={-1} x2={0} y2={1} />
+          </g>
+          <line
+            x1={0}
+            y1={0}
+            x2={Math.cos(skinAngle)}
+            y2={-Math.sin(skinAngle)}
+            stroke="hsl(30 90% 65%)"
+            strokeWidth={0.008}
+            strokeDasharray="0.03 0.015"
+          />
+          {targets.map((target) => {
+            const color = `#${toHex(target.rgb.r)}${toHex(target.rgb.g)}${toHex(target.rgb.b)}`;
+            return target.level === 75 ? (
+              <g key={`${target.label}75`}>
+                <rect
+                  x={target.x - TARGET_BOX}
+                  y={-target.y - TARGET_BOX}
+                  width={TARGET_BOX * 2}
+                  height={TARGET_BOX * 2}
+                  stroke={color}
+                  strokeWidth={0.008}
+                  fill="none"
+                />
+                <text
+                  x={target.x * 1.25}
+                  y={-target.y * 1.25}
+                  fill={color}
+                  fontSize={0.07}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                >
+                  {target.label}
+                </text>
+              </g>
+            ) : (
+              <circle key={`${target.label}100`} cx={target.x} cy={-target.y} r={0.02} stroke={color} strokeWidth={0.008} fill="none" />
+            );
+          })}
+        </svg>
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-3">
+        {plane === 'cbcr' ? `${conversionSettings.ycbcrMatrix.replace('BT', 'BT.')} Cb/Cr` : 'Analog BT.601 U/V'} of
+        the adjusted image. Boxes mark 75% color bars, circles 100%; the dashed orange line is the skin-tone line.
+        {' '}{density.samples.toLocaleString()} pixels sampled.
+      </p>
+    </Card>
+  );
+}
@@ -1,22 +1,61 @@
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  ColorVisionDeficiency,
+  ColorVisionModel,
+  ColorVisionSettings,
+  defaultColorVisionSettings
+} from "@/utils/colorVision";
 import { Eye, EyeOff } from "lucide-react";
 
 interface ViewToggleProps {
   showOriginal: boolean;
   onToggle: () => void;
   selectedModel: string;
+  colorVision?: ColorVisionSettings;
+  onColorVisionChange?: (settings: ColorVisionSettings) => void;
 }
 
-export function ViewToggle({ showOriginal, onToggle, selectedModel }: ViewToggleProps) {
+// Names for dichromacy (full severity) and anomalous trichromacy
+const deficiencies: { value: ColorVisionDeficiency; dichromacy: string; anomaly: string; description: string }[] = [
+  { value: 'none', dichromacy: 'Typical vision', anomaly: 'Typical vision', description: 'No simulation' },
+  { value: 'protan', dichromacy: 'Protanopia', anomaly: 'Protanomaly', description: 'Long-wave (red) cones' },
+  { value: 'deutan', dichromacy: 'Deuteranopia', anomaly: 'Deuteranomaly', description: 'Medium-wave (green) cones' },
+  { value: 'tritan', dichromacy: 'Tritanopia', anomaly: 'Tritanomaly', description: 'Short-wave (blue) cones' },
+];
+
+const visionModels: { value: ColorVisionModel; label: string; description: string }[] = [
+  { value: 'machado', label: 'Machado 2009', description: 'Physiological model, graded severity' },
+  { value: 'brettel', label: 'Brettel 1997', description: 'Two half-planes, best for tritanopia' },
+  { value: 'vienot', label: 'Viénot 1999', description: 'Single plane, protan and deutan only' },
+];
+
+export function ViewToggle({
+  showOriginal,
+  onToggle,
+  selectedModel,
+  colorVision = defaultColorVisionSettings,
+  onColorVisionChange
+}: ViewToggleProps) {
+  const update = <K extends keyof ColorVisionSettings>(key: K, value: ColorVisionSettings[K]) => {
+    onColorVisionChange?.({ ...colorVision, [key]: value });
+  };
+
+  const dichromacy = colorVision.severity >= 1;
+  const deficiency = deficiencies.find((option) => option.value === colorVision.deficiency);
+  const deficiencyName = deficiency && (dichromacy ? deficiency.dichromacy : deficiency.anomaly);
+
   return (
     <Card className="p-4 bg-card border-border">
       <div className="flex items-center justify-between">
         <div className="space-y-1">
           <h3 className="font-medium">View Mode</h3>
           <p className="text-sm text-muted-foreground">
-            {showOriginal 
-              ? "Viewing original images" 
+            {showOriginal
+              ? "Viewing original images"
               : `Viewing images transformed to ${selectedModel} color space`
             }
           </p>
@@ -39,6 +78,90 @@ export function ViewToggle({ showOriginal, onToggle, selectedModel }: ViewToggle
           )}
         </Button>
       </div>
+
+      {onColorVisionChange && (
+        <div className="border-t border-border mt-4 pt-4 space-y-3">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-foreground">Color Vision</label>
+            <Select
+              value={colorVision.deficiency}
+              onValueChange={(value) => update('deficiency', value as ColorVisionDeficiency)}
+            >
+              <SelectTrigger className="w-full bg-card border-border hover:bg-muted transition-smooth">
+                <SelectValue>{deficiencyName}</SelectValue>
+              </SelectTrigger>
+              <SelectContent className="bg-popover border-border">
+                {deficiencies.map((option) => (
+                  <SelectItem key={option.value} value={option.value} className="hover:bg-muted focus:bg-muted cursor-pointer">
+                    <div className="flex flex-col">
+                      <span className="font-medium">{dichromacy ? option.dichromacy : option.anomaly}</span>
+                      <span className="text-xs text-muted-foreground">{option.description}</span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {colorVision.deficiency !== 'none' && (
+            <>
+              <Select
+                value={colorVision.model}
+                onValueChange={(value) => update('model', value as ColorVisionModel)}
+              >
+                <SelectTrigger className="w-full bg-card border-border hover:bg-muted transition-smooth">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover border-border">
+                  {visionModels.map((option) => (
+                    <SelectItem key={option.value} value={option.value} className="hover:bg-muted focus:bg-muted cursor-pointer">
+                      <div className="flex flex-col">
+                        <span className="font-medium">{option.label}</span>
+                        <span className="text-xs text-muted-foreground">{option.description}</span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <label className="text-sm font-medium text-foreground">Severity</label>
+                  <span className="text-xs text-muted-foreground">{Math.round(colorVision.severity * 100)}%</span>
+                </div>
+                <Slider
+                  value={[colorVision.severity * 100]}
+                  onValueChange={(value) => update('severity', value[0] / 100)}
+                  min={0}
+                  max={100}
+                  step={5}
+                  className="w-full"
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={colorVision.simulate} onCheckedChange={(checked) => update('simulate', checked)} />
+                  Simulate
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={colorVision.daltonize} onCheckedChange={(checked) => update('daltonize', checked)} />
+                  Daltonize
+                </label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {colorVision.simulate && colorVision.daltonize
+                  ? `Corrected images as seen with ${deficiencyName?.toLowerCase()}`
+                  : colorVision.daltonize
+                    ? `Images recolored for viewers with ${deficiencyName?.toLowerCase()}`
+                    : colorVision.simulate
+                      ? `Images as seen with ${deficiencyName?.toLowerCase()}`
+                      : 'Turn on simulation or daltonization to change the images'}
+              </p>
+            </>
+          )}
+        </div>
+      )}
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ConversionSettings, defaultConversionSettings } from "@/utils/colorConversions";
+import { WAVEFORM_LEVELS, WaveformMode, computeWaveform, ireToCode, renderWaveform, videoLevels } from "@/utils/waveform";
+import type { WorkspaceFrame } from "@/components/ImageWorkspace";
+import { Activity } from "lucide-react";
+
+interface WaveformPanelProps {
+  frame: WorkspaceFrame | null;
+  conversionSettings?: ConversionSettings;
+}
+
+type WaveformScale = 'ire' | 'code';
+
+const TOP_CODE = WAVEFORM_LEVELS - 1;
+
+// Vertical position of a code value, in percent from the top
+const codeTop = (code: number) => `${(TOP_CODE - code) / TOP_CODE * 100}%`;
+
+export function WaveformPanel({ frame, conversionSettings = defaultConversionSettings }: WaveformPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [mode, setMode] = useState<WaveformMode>('luma');
+  const [scale, setScale] = useState<WaveformScale>('ire');
+  const [highlightIllegal, setHighlightIllegal] = useState(true);
+
+  const waveform = useMemo(() => {
+    if (!frame) return null;
+    const columns = Math.min(frame.adjusted.width, mode === 'luma' ? 512 : 256);
+    return computeWaveform(frame.adjusted, mode, conversionSettings, columns);
+  }, [frame, mode, conversionSettings]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !waveform) return;
+    const image = renderWaveform(waveform, highlightIllegal);
+    canvas.width = image.width;
+    canvas.height = image.height;
+    ctx.putImageData(image, 0, 0);
+  }, [waveform, highlightIllegal]);
+
+  if (!waveform) return null;
+
+  const range = conversionSettings.ycbcrRange;
+  const { black, white } = videoLevels(range);
+  const graticule = scale === 'ire'
+    ? Array.from({ length: 11 }, (_, step) => ({ code: ireToCode(step * 10, range), label: `${step * 10}` }))
+    : [...new Set([0, 64, 128, 192, TOP_CODE, black, white])].map((code) => ({ code, label: `${code}` }));
+  const traceCount = waveform.traces.length;
+
+  return (
+    <Card className="mt-4 p-4 bg-card border-border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <Activity className="w-4 h-4 text-primary" />
+          <h3 className="font-medium">{mode === 'luma' ? 'Waveform' : 'Parade'}</h3>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as WaveformMode)}
+          >
+            <ToggleGroupItem value="luma" className="h-7 px-2 text-xs">Luma</ToggleGroupItem>
+            <ToggleGroupItem value="rgb" className="h-7 px-2 text-xs">RGB</ToggleGroupItem>
+            <ToggleGroupItem value="ycbcr" className="h-7 px-2 text-xs">YCbCr</ToggleGroupItem>
+          </ToggleGroup>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={scale}
+            onValueChange={(value) => value && setScale(value as WaveformScale)}
+          >
+            <ToggleGroupItem value="ire" className="h-7 px-2 text-xs">IRE</ToggleGroupItem>
+            <ToggleGroupItem value="code" className="h-7 px-2 text-xs">Code</ToggleGroupItem>
+          </ToggleGroup>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={highlightIllegal} onCheckedChange={setHighlightIllegal} />
+            Illegal
+          </label>
+        </div>
+      </div>
+
+      <div className="relative h-56 pl-8">
+        {graticule.map(({ code, label }) => (
+          <span
+            key={code}
+            className="absolute left-0 -translate-y-1/2 text-[10px] font-mono text-muted-foreground"
+            style={{ top: codeTop(code) }}
+          >
+            {label}
+          </span>
+        ))}
+        <div className="relative h-full rounded-md bg-black overflow-hidden">
+          <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+          {/* One unit per trace horizontally, code values vertically with 255 at the top */}
+          <svg
+            viewBox={`0 0 ${traceCount} ${TOP_CODE}`}
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full pointer-events-none"
+          >
+            {graticule.map(({ code }) => (
+              <line
+                key={code}
+                x1={0}
+                x2={traceCount}
+                y1={TOP_CODE - code}
+                y2={TOP_CODE - code}
+                stroke="rgba(255,255,255,0.2)"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {waveform.traces.map((trace, index) => (
+              <g key={trace.label}>
+                {index > 0 && (
+                  <line x1={index} x2={index} y1={0} y2={TOP_CODE} stroke="rgba(255,255,255,0.35)" vectorEffect="non-scaling-stroke" />
+                )}
+                {range === 'limited' && [trace.legalMin, trace.legalMax].map((code) => (
+                  <line
+                    key={code}
+                    x1={index}
+                    x2={index + 1}
+                    y1={TOP_CODE - code}
+                    y2={TOP_CODE - code}
+                    stroke="rgba(255,60,200,0.7)"
+                    strokeDasharray="4 3"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+              </g>
+            ))}
+          </svg>
+          {traceCount > 1 && waveform.traces.map((trace, index) => (
+            <span
+              key={trace.label}
+              className="absolute top-1 text-[10px] font-medium"
+              style={{ left: `calc(${index / traceCount * 100}% + 0.25rem)`, color: `rgb(${trace.color.r} ${trace.color.g} ${trace.color.b})` }}
+            >
+              {trace.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-3 text-xs">
+        {range === 'limited' ? (
+          <span className="font-mono">
+            Illegal {waveform.traces.map((trace) => `${trace.label} ${(trace.illegal / waveform.samples * 100).toFixed(1)}%`).join(' · ')}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">Full range: every code value is legal.</span>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        Pixels of the adjusted image read as {range} range code values
+        {range === 'limited' ? `; levels outside ${black}-${white}${mode === 'ycbcr' ? ' (16-240 for chroma)' : ''} are illegal` : ''}.
+        {' '}{waveform.samples.toLocaleString()} pixels sampled.
+      </p>
+    </Card>
+  );
+}
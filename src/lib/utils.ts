@@ -1,6 +1,18 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { ThemeColor } from "@/utils/colorSpaceRegistry"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Text classes for theme color tokens, spelled out so Tailwind can see them
+export const themeTextClasses: Record<ThemeColor, string> = {
+  primary: "text-primary",
+  "primary-glow": "text-primary-glow",
+  secondary: "text-secondary",
+  accent: "text-accent",
+  destructive: "text-destructive",
+  foreground: "text-foreground",
+  "muted-foreground": "text-muted-foreground",
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ConversionSettingsPanel } from "@/components/ConversionSettingsPanel";
+import { ConversionSettings, RGBColor, defaultConversionSettings } from "@/utils/colorConversions";
+import { ColorChannel, ColorSpaceDefinition, getChannels, getColorSpaces } from "@/utils/colorSpaces";
+import { Color, ColorSpaceId } from "@/utils/color";
+import { formatCssColor, parseCssColor } from "@/utils/cssColor";
+import { ArrowLeft, ArrowRightLeft, TriangleAlert } from "lucide-react";
+
+// Text of the field being edited, kept verbatim so partial input such as "12." isn't reformatted
+interface Draft {
+  field: string;
+  values: Record<string, string>;
+}
+
+const CSS_FIELD = 'css';
+
+// One decimal more than the channel's slider step
+const decimalsFor = (channel: ColorChannel) =>
+  Math.max(0, -Math.floor(Math.log10(channel.adjustment.step))) + 1;
+
+const isOutOfRange = (channel: ColorChannel, value: number) =>
+  !channel.wrap && ((channel.min !== undefined && value < channel.min - 1e-6) || (channel.max !== undefined && value > channel.max + 1e-6));
+
+// The color in a space, or null where an appearance model has no value for it
+const convert = (rgb: RGBColor, space: ColorSpaceId, settings: ConversionSettings) => {
+  try {
+    return Color.fromRgb(rgb, settings).to(space);
+  } catch (error) {
+    if (error instanceof RangeError) return null;
+    throw error;
+  }
+};
+
+// The shared color, or null if its RGB has no representation
+const colorFromRgb = (rgb: RGBColor, settings: ConversionSettings) => {
+  try {
+    return Color.fromRgb(rgb, settings);
+  } catch (error) {
+    if (error instanceof RangeError) return null;
+    throw error;
+  }
+};
+
+const isFiniteRgb = ({ r, g, b }: RGBColor) => Number.isFinite(r) && Number.isFinite(g) && Number.isFinite(b);
+
+interface ModelFieldProps {
+  space: ColorSpaceDefinition;
+  rgb: RGBColor;
+  settings: ConversionSettings;
+  draft: Draft | null;
+  onEdit: (draft: Draft, rgb: RGBColor | null) => void;
+  onBlur: () => void;
+}
+
+function ModelField({ space, rgb, settings, draft, onEdit, onBlur }: ModelFieldProps) {
+  const channels = getChannels(space, settings);
+  const id = space.id as ColorSpaceId;
+  const editing = draft?.field === space.id ? draft : null;
+  const color = editing ? null : convert(rgb, id, settings);
+
+  const valueOf = (channel: ColorChannel) => {
+    if (editing) return editing.values[channel.key] ?? '';
+    return color ? color.toValues()[channel.key].toFixed(decimalsFor(channel)) : '';
+  };
+
+  const handleChange = (key: string, text: string) => {
+    const values = Object.fromEntries(channels.map((channel) => [channel.key, valueOf(channel)]));
+    values[key] = text;
+
+    const numbers = Object.fromEntries(Object.entries(values).map(([channel, value]) => [channel, value.trim() === '' ? NaN : Number(value)]));
+    const valid = Object.values(numbers).every(Number.isFinite);
+    const edited = valid ? Color.fromValues(id, numbers, settings).toRgb({ clip: false }) : null;
+    // Values far outside a model's range (e.g. a negative Jz) have no RGB; keep the draft only
+    onEdit({ field: space.id, values }, edited && isFiniteRgb(edited) ? edited : null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <div className="text-sm font-medium">{space.label}</div>
+        <p className="text-xs text-muted-foreground">{space.description}</p>
+      </div>
+      <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${channels.length}, minmax(0, 1fr))` }}>
+        {channels.map((channel) => {
+          const text = valueOf(channel);
+          const outOfRange = text !== '' && isOutOfRange(channel, Number(text));
+          return (
+            <label key={channel.key} className="space-y-1">
+              <span className="block text-xs text-muted-foreground truncate">
+                {channel.label}{channel.unit ? ` (${channel.unit})` : ''}
+              </span>
+              <Input
+                value={text}
+                inputMode="decimal"
+                placeholder={color || editing ? '' : '-'}
+                disabled={!color && !editing}
+                onChange={(e) => handleChange(channel.key, e.target.value)}
+                onBlur={onBlur}
+                className={`h-8 bg-card border-border font-mono text-xs ${outOfRange ? 'text-destructive' : ''}`}
+                title={outOfRange ? `Outside the usual ${channel.min} to ${channel.max} range` : undefined}
+              />
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const Convert = () => {
+  const [conversionSettings, setConversionSettings] = useState<ConversionSettings>(defaultConversionSettings);
+  // Unclipped sRGB (0-255) shared by every field
+  const [rgb, setRgb] = useState<RGBColor>({ r: 102, g: 51, b: 153 });
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const color = colorFromRgb(rgb, conversionSettings);
+  const inGamut = color?.inGamut() ?? true;
+  const displayed = color?.toGamut() ?? null;
+  const cssText = draft?.field === CSS_FIELD
+    ? draft.values[CSS_FIELD]
+    : formatCssColor(rgb, inGamut ? 'hex' : 'oklch');
+
+  const handleEdit = (nextDraft: Draft, edited: RGBColor | null) => {
+    setDraft(nextDraft);
+    if (edited) setRgb(edited);
+  };
+
+  const handleCssChange = (text: string) => {
+    handleEdit({ field: CSS_FIELD, values: { [CSS_FIELD]: text } }, parseCssColor(text)?.rgb ?? null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Background gradient effect */}
+      <div className="fixed inset-0 bg-gradient-rainbow opacity-5 pointer-events-none"></div>
+
+      <div className="relative z-10 container mx-auto px-4 py-6">
+        <div className="flex items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-primary flex items-center justify-center">
+              <ArrowRightLeft className="w-5 h-5 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold">Color Converter</h1>
+              <p className="text-sm text-muted-foreground">Edit any field and every other model follows</p>
+            </div>
+          </div>
+          <Link to="/" className="flex items-center gap-2 text-sm text-primary hover:underline">
+            <ArrowLeft className="w-4 h-4" />
+            Image workspace
+          </Link>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-8">
+          {/* Left Column - One field per model */}
+          <Card className="lg:col-span-2 p-6 bg-card border-border">
+            <div className="space-y-6">
+              <label className="block space-y-2">
+                <span className="text-sm font-medium">CSS</span>
+                <Input
+                  value={cssText}
+                  onChange={(e) => handleCssChange(e.target.value)}
+                  onBlur={() => setDraft(null)}
+                  placeholder="#663399, oklch(0.7 0.15 150), color(display-p3 1 0 0)"
+                  className="bg-card border-border font-mono"
+                />
+              </label>
+              <div className="grid md:grid-cols-2 gap-6">
+                {getColorSpaces().map((space) => (
+                  <ModelField
+                    key={space.id}
+                    space={space}
+                    rgb={rgb}
+                    settings={conversionSettings}
+                    draft={draft}
+                    onEdit={handleEdit}
+                    onBlur={() => setDraft(null)}
+                  />
+                ))}
+              </div>
+            </div>
+          </Card>
+
+          {/* Right Column - Swatch and settings */}
+          <div className="space-y-6">
+            <div className="sticky top-6 space-y-6">
+              <Card className="p-6 bg-card border-border space-y-4">
+                <div
+                  className="w-full h-48 rounded-lg border border-border"
+                  style={{ backgroundColor: displayed?.toCss('rgb') }}
+                />
+                <div className="font-mono text-sm text-center">{displayed?.toCss('hex') ?? '-'}</div>
+                {!inGamut && (
+                  <Alert variant="destructive">
+                    <TriangleAlert className="h-4 w-4" />
+                    <AlertTitle>Outside the sRGB gamut</AlertTitle>
+                    <AlertDescription>
+                      A standard display can't show this color; the swatch and hex value use the gamut mapping chosen in the settings.
+                      Values outside a model's usual range are shown in red.
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </Card>
+              <ConversionSettingsPanel
+                settings={conversionSettings}
+                onSettingsChange={setConversionSettings}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Convert;
@@ -1,16 +1,38 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowRight } from "lucide-react";
 import { ColorMagicHeader } from "@/components/ColorMagicHeader";
 import { ColorModelSelector } from "@/components/ColorModelSelector";
+import { ColorNameSelector } from "@/components/ColorNameSelector";
 import { ViewToggle } from "@/components/ViewToggle";
 import { ImageGallery } from "@/components/ImageGallery";
-import { ImageWorkspace } from "@/components/ImageWorkspace";
-import { ColorAdjustmentPanel, ColorAdjustments } from "@/components/ColorAdjustmentPanel";
-import { ColorModel } from "@/utils/colorConversions";
+import { ImageWorkspace, WorkspaceFrame } from "@/components/ImageWorkspace";
+import { ChannelHistogramPanel } from "@/components/ChannelHistogramPanel";
+import { VectorscopePanel } from "@/components/VectorscopePanel";
+import { WaveformPanel } from "@/components/WaveformPanel";
+import { ChromaticityDiagramPanel } from "@/components/ChromaticityDiagramPanel";
+import { ColorAdjustmentPanel } from "@/components/ColorAdjustmentPanel";
+import { ConversionSettingsPanel } from "@/components/ConversionSettingsPanel";
+import { CssColorConverter } from "@/components/CssColorConverter";
+import { ColorDifferencePanel } from "@/components/ColorDifferencePanel";
+import { ContrastCheckerPanel } from "@/components/ContrastCheckerPanel";
+import { ConversionSettings, RGBColor, defaultConversionSettings } from "@/utils/colorConversions";
+import { ColorAdjustments, ColorModel } from "@/utils/colorSpaces";
+import { ColorVisionSettings, defaultColorVisionSettings } from "@/utils/colorVision";
+import { ColorNameDictionary } from "@/utils/colorNames";
 
 const Index = () => {
   const [selectedModel, setSelectedModel] = useState<ColorModel>('RGB');
   const [showOriginal, setShowOriginal] = useState(true);
   const [adjustments, setAdjustments] = useState<ColorAdjustments>({});
+  const [conversionSettings, setConversionSettings] = useState<ConversionSettings>(defaultConversionSettings);
+  const [sampledColor, setSampledColor] = useState<RGBColor | null>(null);
+  const [colorVision, setColorVision] = useState<ColorVisionSettings>(defaultColorVisionSettings);
+  // Original and adjusted pixels of the workspace image, for the histogram and scopes
+  const [workspaceFrame, setWorkspaceFrame] = useState<WorkspaceFrame | null>(null);
+  // Workspace pixels picked out on the chromaticity diagram
+  const [pixelHighlight, setPixelHighlight] = useState<Uint8Array | null>(null);
+  const [colorNameDictionaries, setColorNameDictionaries] = useState<ColorNameDictionary[]>(['css', 'xkcd']);
 
   return (
     <div className="min-h-screen bg-background">
@@ -18,7 +40,12 @@ const Index = () => {
       <div className="fixed inset-0 bg-gradient-rainbow opacity-5 pointer-events-none"></div>
       
       <div className="relative z-10 container mx-auto px-4 py-6">
-        <ColorMagicHeader />
+        <ColorMagicHeader
+          selectedModel={selectedModel}
+          onModelChange={setSelectedModel}
+          frame={workspaceFrame}
+          conversionSettings={conversionSettings}
+        />
         
         {/* Main Content - Two Column Layout */}
         <div className="grid lg:grid-cols-3 gap-8">
@@ -26,20 +53,31 @@ const Index = () => {
           <div className="lg:col-span-2 space-y-6">
             {/* Controls Section - Compact Row */}
             <div className="grid md:grid-cols-3 gap-4">
-              <ColorModelSelector 
-                selectedModel={selectedModel} 
-                onModelChange={setSelectedModel} 
-              />
+              <div className="space-y-4">
+                <ColorModelSelector 
+                  selectedModel={selectedModel} 
+                  onModelChange={setSelectedModel} 
+                />
+                <ColorNameSelector
+                  dictionaries={colorNameDictionaries}
+                  onDictionariesChange={setColorNameDictionaries}
+                />
+              </div>
               <ViewToggle 
                 showOriginal={showOriginal}
                 onToggle={() => setShowOriginal(!showOriginal)}
                 selectedModel={selectedModel}
+                colorVision={colorVision}
+                onColorVisionChange={setColorVision}
               />
               <div className="md:col-span-1">
                 <div className="text-sm font-medium mb-2">Quick Info</div>
                 <p className="text-xs text-muted-foreground">
-                  Select a color model, drag an image to workspace, and adjust values in real-time
+                  Select a color model, drag an image to workspace, and adjust values in real-time. Click a pixel to load it into the CSS converter
                 </p>
+                <Link to="/convert" className="inline-flex items-center gap-1 mt-2 text-xs text-primary hover:underline">
+                  Convert a single value <ArrowRight className="w-3 h-3" />
+                </Link>
               </div>
             </div>
 
@@ -53,8 +91,46 @@ const Index = () => {
                 selectedModel={selectedModel}
                 showOriginal={showOriginal}
                 adjustments={adjustments}
+                conversionSettings={conversionSettings}
+                colorVision={colorVision}
+                colorNameDictionaries={colorNameDictionaries}
+                onFrame={setWorkspaceFrame}
+                onColorSample={setSampledColor}
+                pixelHighlight={pixelHighlight}
+              />
+              <ChannelHistogramPanel
+                frame={workspaceFrame}
+                selectedModel={selectedModel}
+                conversionSettings={conversionSettings}
               />
+              <VectorscopePanel frame={workspaceFrame} conversionSettings={conversionSettings} />
+              <WaveformPanel frame={workspaceFrame} conversionSettings={conversionSettings} />
+              <ChromaticityDiagramPanel frame={workspaceFrame} onHighlight={setPixelHighlight} />
             </div>
+
+            {/* Conversion Settings - reference white, adaptation */}
+            <ConversionSettingsPanel
+              settings={conversionSettings}
+              onSettingsChange={setConversionSettings}
+            />
+
+            {/* CSS Color Converter - any CSS color in every model */}
+            <CssColorConverter
+              conversionSettings={conversionSettings}
+              sampledColor={sampledColor}
+            />
+
+            {/* Color Difference - ΔE between picked pixels and typed references */}
+            <ColorDifferencePanel
+              conversionSettings={conversionSettings}
+              sampledColor={sampledColor}
+            />
+
+            {/* Contrast Checker - WCAG 2.1 and APCA between text and background colors */}
+            <ContrastCheckerPanel
+              conversionSettings={conversionSettings}
+              sampledColor={sampledColor}
+            />
           </div>
 
           {/* Right Column - Adjustments */}
@@ -67,6 +143,7 @@ const Index = () => {
               <ColorAdjustmentPanel
                 selectedModel={selectedModel}
                 onAdjustmentChange={setAdjustments}
+                conversionSettings={conversionSettings}
               />
             </div>
           </div>
@@ -81,6 +158,9 @@ const Index = () => {
           <ImageGallery 
             selectedModel={selectedModel}
             showOriginal={showOriginal}
+            conversionSettings={conversionSettings}
+            colorVision={colorVision}
+            colorNameDictionaries={colorNameDictionaries}
           />
         </div>
       </div>
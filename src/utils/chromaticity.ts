@@ -0,0 +1,177 @@
+// CIE 1931 xy and CIE 1976 u'v' chromaticity diagrams: spectral and Planckian loci, RGB gamut
+// triangles and the chromaticities of an image's pixels
+
+import { Chromaticity, RGBSpace, RGB_SPACES, multiplyMatrix, rgbSpaceToXyzMatrix, srgbToLinear } from './colorConversions';
+
+export type ChromaticityDiagram = 'xy' | 'uv';
+
+// Position on a diagram: x, y on the xy diagram, u', v' on the u'v' one
+export interface DiagramPoint {
+  x: number;
+  y: number;
+}
+
+export interface ChromaticityPlot {
+  diagram: ChromaticityDiagram;
+  // Diagram position of every pixel, two values each; NaN for black pixels, which have no chromaticity
+  points: Float32Array;
+  // Square grid over 0-DIAGRAM_EXTENT on both axes, row 0 at the top
+  size: number;
+  counts: Uint32Array;
+  // Summed sRGB 0-255 of the pixels in each cell, three values per cell
+  colors: Float64Array;
+  maxCount: number;
+}
+
+// Both axes of the plot run from 0 to this value
+export const DIAGRAM_EXTENT: Record<ChromaticityDiagram, number> = {
+  xy: 0.9,
+  uv: 0.65
+};
+
+// CIE 1931 2° spectral locus at 5 nm: wavelength, x, y. The locus is flat beyond 700 nm.
+const SPECTRAL_LOCUS: [number, number, number][] = [
+  [380, 0.1741, 0.0050], [385, 0.1740, 0.0050], [390, 0.1738, 0.0049], [395, 0.1736, 0.0049],
+  [400, 0.1733, 0.0048], [405, 0.1730, 0.0048], [410, 0.1726, 0.0048], [415, 0.1721, 0.0048],
+  [420, 0.1714, 0.0051], [425, 0.1703, 0.0058], [430, 0.1689, 0.0069], [435, 0.1669, 0.0086],
+  [440, 0.1644, 0.0109], [445, 0.1611, 0.0138], [450, 0.1566, 0.0177], [455, 0.1510, 0.0227],
+  [460, 0.1440, 0.0297], [465, 0.1355, 0.0399], [470, 0.1241, 0.0578], [475, 0.1096, 0.0868],
+  [480, 0.0913, 0.1327], [485, 0.0687, 0.2007], [490, 0.0454, 0.2950], [495, 0.0235, 0.4127],
+  [500, 0.0082, 0.5384], [505, 0.0039, 0.6548], [510, 0.0139, 0.7502], [515, 0.0389, 0.8120],
+  [520, 0.0743, 0.8338], [525, 0.1142, 0.8262], [530, 0.1547, 0.8059], [535, 0.1929, 0.7816],
+  [540, 0.2296, 0.7543], [545, 0.2658, 0.7243], [550, 0.3016, 0.6923], [555, 0.3373, 0.6589],
+  [560, 0.3731, 0.6245], [565, 0.4087, 0.5896], [570, 0.4441, 0.5547], [575, 0.4788, 0.5202],
+  [580, 0.5125, 0.4866], [585, 0.5448, 0.4544], [590, 0.5752, 0.4242], [595, 0.6029, 0.3965],
+  [600, 0.6270, 0.3725], [605, 0.6482, 0.3514], [610, 0.6658, 0.3340], [615, 0.6801, 0.3197],
+  [620, 0.6915, 0.3083], [625, 0.7006, 0.2993], [630, 0.7079, 0.2920], [635, 0.7140, 0.2859],
+  [640, 0.7190, 0.2809], [645, 0.7230, 0.2770], [650, 0.7260, 0.2740], [655, 0.7283, 0.2717],
+  [660, 0.7300, 0.2700], [665, 0.7311, 0.2689], [670, 0.7320, 0.2680], [675, 0.7327, 0.2673],
+  [680, 0.7334, 0.2666], [685, 0.7340, 0.2660], [690, 0.7344, 0.2656], [695, 0.7346, 0.2654],
+  [700, 0.7347, 0.2653]
+];
+
+// Below this relative luminance a pixel's chromaticity is noise and it is left off the plot
+const MIN_LUMINANCE = 1e-4;
+
+const LINEAR_LOOKUP = Array.from({ length: 256 }, (_, value) => srgbToLinear(value / 255));
+
+// xy to the diagram's coordinates
+export function xyToDiagram(xy: Chromaticity, diagram: ChromaticityDiagram): DiagramPoint {
+  if (diagram === 'xy') return { x: xy.x, y: xy.y };
+  const denominator = -2 * xy.x + 12 * xy.y + 3;
+  return { x: 4 * xy.x / denominator, y: 9 * xy.y / denominator };
+}
+
+// The spectral locus on the diagram, from violet to red
+export function spectralLocus(diagram: ChromaticityDiagram): (DiagramPoint & { wavelength: number })[] {
+  return SPECTRAL_LOCUS.map(([wavelength, x, y]) => ({ wavelength, ...xyToDiagram({ x, y }, diagram) }));
+}
+
+// Chromaticity of a blackbody at 1667-25000 K (Kim et al. 2002 cubic spline approximation)
+export function planckianChromaticity(temperature: number): Chromaticity {
+  const t = Math.max(1667, Math.min(25000, temperature));
+  const x = t <= 4000
+    ? -0.2661239e9 / t ** 3 - 0.2343589e6 / t ** 2 + 0.8776956e3 / t + 0.179910
+    : -3.0258469e9 / t ** 3 + 2.1070379e6 / t ** 2 + 0.2226347e3 / t + 0.240390;
+  const y = t <= 2222
+    ? -1.1063814 * x ** 3 - 1.34811020 * x ** 2 + 2.18555832 * x - 0.20219683
+    : t <= 4000
+      ? -0.9549476 * x ** 3 - 1.37418593 * x ** 2 + 2.09137015 * x - 0.16748867
+      : 3.0817580 * x ** 3 - 5.87338670 * x ** 2 + 3.75112997 * x - 0.37001483;
+  return { x, y };
+}
+
+// The Planckian locus on the diagram, sampled evenly in mireds so the warm end stays smooth
+export function planckianLocus(diagram: ChromaticityDiagram, steps = 60): (DiagramPoint & { temperature: number })[] {
+  const hottest = 1e6 / 25000;
+  const coldest = 1e6 / 1667;
+  return Array.from({ length: steps + 1 }, (_, step) => {
+    const temperature = 1e6 / (coldest + (hottest - coldest) * step / steps);
+    return { temperature, ...xyToDiagram(planckianChromaticity(temperature), diagram) };
+  });
+}
+
+// Red, green and blue primaries of an RGB space on the diagram
+export function gamutTriangle(space: RGBSpace, diagram: ChromaticityDiagram): DiagramPoint[] {
+  return [space.red, space.green, space.blue].map(primary => xyToDiagram(primary, diagram));
+}
+
+// Chromaticity of every pixel, binned on a size x size grid. Pixels are sRGB and plotted as they
+// are, without adapting to the configured white, so they line up with the gamut triangles.
+export function chromaticityPlot(image: ImageData, diagram: ChromaticityDiagram, size = 256): ChromaticityPlot {
+  const { data } = image;
+  const pixelCount = image.width * image.height;
+  const points = new Float32Array(pixelCount * 2);
+  const counts = new Uint32Array(size * size);
+  const colors = new Float64Array(size * size * 3);
+  const toXyz = rgbSpaceToXyzMatrix(RGB_SPACES[0]);
+  const extent = DIAGRAM_EXTENT[diagram];
+  let maxCount = 0;
+
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const i = pixel * 4;
+    const [x, y, z] = multiplyMatrix(toXyz, [LINEAR_LOOKUP[data[i]], LINEAR_LOOKUP[data[i + 1]], LINEAR_LOOKUP[data[i + 2]]]);
+    const sum = x + y + z;
+    if (y < MIN_LUMINANCE || sum <= 0) {
+      points[pixel * 2] = NaN;
+      points[pixel * 2 + 1] = NaN;
+      continue;
+    }
+
+    const point = xyToDiagram({ x: x / sum, y: y / sum }, diagram);
+    points[pixel * 2] = point.x;
+    points[pixel * 2 + 1] = point.y;
+
+    const column = Math.floor(point.x / extent * size);
+    const row = Math.floor((1 - point.y / extent) * size);
+    if (column < 0 || column >= size || row < 0 || row >= size) continue;
+    const cell = row * size + column;
+    counts[cell]++;
+    colors[cell * 3] += data[i];
+    colors[cell * 3 + 1] += data[i + 1];
+    colors[cell * 3 + 2] += data[i + 2];
+    maxCount = Math.max(maxCount, counts[cell]);
+  }
+
+  return { diagram, points, size, counts, colors, maxCount };
+}
+
+// Pixels whose chromaticity lies within `radius` of `center` (diagram units), as a 0/1 flag per pixel
+export function pixelsNearChromaticity(plot: ChromaticityPlot, center: DiagramPoint, radius: number): { mask: Uint8Array; count: number } {
+  const mask = new Uint8Array(plot.points.length / 2);
+  const radiusSquared = radius * radius;
+  let count = 0;
+
+  for (let pixel = 0; pixel < mask.length; pixel++) {
+    const dx = plot.points[pixel * 2] - center.x;
+    const dy = plot.points[pixel * 2 + 1] - center.y;
+    // NaN for black pixels fails the comparison
+    if (dx * dx + dy * dy <= radiusSquared) {
+      mask[pixel] = 1;
+      count++;
+    }
+  }
+  return { mask, count };
+}
+
+// Density as an image, each cell in the mean color of its pixels brightened to full value
+export function renderChromaticityPlot(plot: ChromaticityPlot): ImageData {
+  const { size, counts, colors, maxCount } = plot;
+  const image = new ImageData(size, size);
+  const logMax = Math.log1p(maxCount) || 1;
+
+  for (let cell = 0; cell < counts.length; cell++) {
+    const count = counts[cell];
+    if (count === 0) continue;
+    const r = colors[cell * 3] / count;
+    const g = colors[cell * 3 + 1] / count;
+    const b = colors[cell * 3 + 2] / count;
+    const gain = 255 / Math.max(r, g, b, 1);
+    const i = cell * 4;
+    image.data[i] = r * gain;
+    image.data[i + 1] = g * gain;
+    image.data[i + 2] = b * gain;
+    image.data[i + 3] = 96 + 159 * Math.log1p(count) / logMax;
+  }
+  return image;
+}
@@ -0,0 +1,267 @@
+// Immutable Color value: channel values tagged with their color space and conversion settings.
+// The converters in colorConversions.ts remain the low-level layer; this is the typed API over
+// the color space registry.
+
+import {
+  CAM16Color,
+  CAM16UCSColor,
+  CMYKColor,
+  ColorDifference,
+  ConversionSettings,
+  GamutMapping,
+  HDRSignalColor,
+  HSIColor,
+  HSLColor,
+  HSLUVColor,
+  HSVColor,
+  HWBColor,
+  ICTCPColor,
+  JZAZBZColor,
+  LABColor,
+  LCHUVColor,
+  LUVColor,
+  MunsellColor,
+  OKLABColor,
+  OKLCHColor,
+  RGBColor,
+  XYYColor,
+  XYZColor,
+  YCbCrColor,
+  YUVColor,
+  defaultConversionSettings,
+  isInGamut,
+  mapToGamut,
+  rgbDifference
+} from './colorConversions';
+import {
+  ChannelValues,
+  ColorSpaceDefinition,
+  getChannels,
+  getColorSpace,
+  getColorSpaces
+} from './colorSpaces';
+import { CssColorFormat, formatCssColor, parseCssColor } from './cssColor';
+
+// Channel object of each color space id. In-house spaces can add theirs through declaration merging:
+// declare module '@/utils/color' { interface ColorSpaceChannels { MYSPACE: { a: number; b: number } } }
+export interface ColorSpaceChannels {
+  RGB: RGBColor;
+  HSV: HSVColor;
+  HSL: HSLColor;
+  HWB: HWBColor;
+  HSI: HSIColor;
+  CMYK: CMYKColor;
+  XYZ: XYZColor;
+  XYY: XYYColor;
+  LAB: LABColor;
+  LUV: LUVColor;
+  LCHUV: LCHUVColor;
+  HSLUV: HSLUVColor;
+  OKLAB: OKLABColor;
+  OKLCH: OKLCHColor;
+  CAM16: Pick<CAM16Color, 'j' | 'c' | 'h'>;
+  CAM16UCS: CAM16UCSColor;
+  MUNSELL: MunsellColor;
+  PQ: HDRSignalColor;
+  HLG: HDRSignalColor;
+  ICTCP: ICTCPColor;
+  JZAZBZ: JZAZBZColor;
+  YUV: YUVColor;
+  YCBCR: YCbCrColor;
+}
+
+export type ColorSpaceId = keyof ColorSpaceChannels & string;
+
+export type ChannelKey<S extends ColorSpaceId> = keyof ColorSpaceChannels[S] & string;
+
+function requireColorSpace(id: string): ColorSpaceDefinition {
+  const space = getColorSpace(id);
+  if (!space) {
+    throw new Error(`Unknown color space "${id}"`);
+  }
+  return space;
+}
+
+export class Color<S extends ColorSpaceId = ColorSpaceId> {
+  readonly space: S;
+  readonly settings: ConversionSettings;
+  private readonly values: Readonly<ColorSpaceChannels[S]>;
+
+  private constructor(space: S, values: ColorSpaceChannels[S], settings: ConversionSettings) {
+    this.space = space;
+    this.values = Object.freeze(values);
+    this.settings = settings;
+    Object.freeze(this);
+  }
+
+  // Color from channel values; only the channels the space declares are kept
+  static from<S extends ColorSpaceId>(
+    space: S,
+    channels: ColorSpaceChannels[S],
+    settings: ConversionSettings = defaultConversionSettings
+  ): Color<S> {
+    return Color.create(space, channels as unknown as ChannelValues, settings);
+  }
+
+  // Untyped variant of from() for code that iterates the registry's channels
+  static fromValues<S extends ColorSpaceId>(
+    space: S,
+    values: ChannelValues,
+    settings: ConversionSettings = defaultConversionSettings
+  ): Color<S> {
+    return Color.create(space, values, settings);
+  }
+
+  // Color from display sRGB (0-255), expressed in the working RGB space
+  static fromRgb(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): Color<'RGB'> {
+    return Color.fromSrgb(rgb, 'RGB', settings);
+  }
+
+  // Parse `SPACE(v1, v2, v3)` as written by toString(), or a space's own notation (e.g. Munsell 5R 4/14)
+  static parse(text: string, settings: ConversionSettings = defaultConversionSettings): Color | null {
+    const match = /^\s*([A-Za-z][\w-]*)\s*\(([^)]*)\)\s*$/.exec(text);
+    if (match) {
+      const space = getColorSpace(match[1].replace(/-/g, '').toUpperCase());
+      if (!space) return null;
+
+      const numbers = match[2].split(/[\s,]+/).filter(Boolean).map(Number);
+      const channels = getChannels(space, settings);
+      if (numbers.length !== channels.length || numbers.some(value => !Number.isFinite(value))) return null;
+
+      const values = Object.fromEntries(channels.map((channel, index) => [channel.key, numbers[index]]));
+      return Color.create(space.id as ColorSpaceId, values, settings);
+    }
+
+    for (const space of getColorSpaces()) {
+      const color = Color.fromNotation(space.id as ColorSpaceId, text, settings);
+      if (color) return color;
+    }
+    return null;
+  }
+
+  // Parse any CSS Color 4 color (hex, rgb(), oklch(), color(display-p3 ...), named colors, ...); alpha is dropped
+  static fromCss(text: string, settings: ConversionSettings = defaultConversionSettings): Color<'RGB'> | null {
+    const css = parseCssColor(text);
+    return css && Color.fromSrgb(css.rgb, 'RGB', settings);
+  }
+
+  // Parse a CSS color or anything parse() accepts. Values with no RGB, such as a negative Jz,
+  // count as unparsed, so the result can always be shown and gamut-mapped.
+  static parseAny(text: string, settings: ConversionSettings = defaultConversionSettings): Color | null {
+    const color = Color.fromCss(text, settings) ?? Color.parse(text, settings);
+    if (!color) return null;
+    const { r, g, b } = color.toRgb({ clip: false });
+    return [r, g, b].every(Number.isFinite) ? color : null;
+  }
+
+  // Parse one space's own notation, e.g. Color.fromNotation('MUNSELL', '5R 4/14')
+  static fromNotation<S extends ColorSpaceId>(
+    space: S,
+    text: string,
+    settings: ConversionSettings = defaultConversionSettings
+  ): Color<S> | null {
+    const values = requireColorSpace(space).notation?.parse(text);
+    return values ? Color.create(space, values, settings) : null;
+  }
+
+  private static create<S extends ColorSpaceId>(space: S, channels: ChannelValues, settings: ConversionSettings): Color<S> {
+    const definition = requireColorSpace(space);
+    const values: ChannelValues = {};
+    for (const { key } of getChannels(definition, settings)) {
+      const value = channels[key];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`Channel "${key}" of color space "${space}" must be a finite number`);
+      }
+      values[key] = value;
+    }
+    return new Color(space, values as unknown as ColorSpaceChannels[S], settings);
+  }
+
+  private static fromSrgb<S extends ColorSpaceId>(rgb: RGBColor, space: S, settings: ConversionSettings): Color<S> {
+    const values = requireColorSpace(space).fromRgb(rgb, settings);
+    // Appearance models are undefined for some imaginary (far out-of-gamut) colors
+    if (!Object.values(values).every(Number.isFinite)) {
+      throw new RangeError(`RGB(${rgb.r}, ${rgb.g}, ${rgb.b}) has no ${space} representation`);
+    }
+    return Color.create(space, values, settings);
+  }
+
+  get channels(): Readonly<ColorSpaceChannels[S]> {
+    return this.values;
+  }
+
+  get<K extends ChannelKey<S>>(channel: K): number {
+    return this.channelValues[channel];
+  }
+
+  // Channel values keyed by channel key, the counterpart of fromValues()
+  toValues(): ChannelValues {
+    return { ...this.channelValues };
+  }
+
+  private get channelValues(): ChannelValues {
+    return this.values as unknown as ChannelValues;
+  }
+
+  // Copy with some channels replaced
+  with(changes: Partial<ColorSpaceChannels[S]>): Color<S> {
+    return Color.create(this.space, { ...this.channelValues, ...changes as ChannelValues }, this.settings);
+  }
+
+  // Copy that interprets the same channel values under other settings (e.g. another white point)
+  withSettings(settings: ConversionSettings): Color<S> {
+    return Color.create(this.space, this.channelValues, settings);
+  }
+
+  // Convert through unclipped sRGB, so out-of-gamut colors survive the round trip
+  to<T extends ColorSpaceId>(space: T): Color<T> {
+    if ((space as ColorSpaceId) === this.space) return this as unknown as Color<T>;
+    return Color.fromSrgb(this.toRgb({ clip: false }), space, this.settings);
+  }
+
+  // Display sRGB (0-255); pass `clip: false` to keep out-of-gamut values outside 0-255
+  toRgb({ clip = true }: { clip?: boolean } = {}): RGBColor {
+    const definition = requireColorSpace(this.space);
+    return definition.toRgb(this.channelValues, this.settings, clip);
+  }
+
+  // Whether the color is displayable in sRGB without clipping
+  inGamut(): boolean {
+    return isInGamut(this.toRgb({ clip: false }));
+  }
+
+  // Displayable version of the color in the same space, by the settings' gamut mapping unless given
+  toGamut(method: GamutMapping = this.settings.gamutMapping): Color<S> {
+    if (this.inGamut()) return this;
+    return Color.fromSrgb(mapToGamut(this.toRgb({ clip: false }), method, this.settings), this.space, this.settings);
+  }
+
+  // Nearest displayable color by clipping the sRGB channels, in the same space
+  clamp(): Color<S> {
+    return this.toGamut('clip');
+  }
+
+  // ΔE76, ΔE94, ΔE2000 and CMC from this color (the reference) to `sample`, in LAB under this color's settings
+  deltaE(sample: Color): ColorDifference {
+    return rgbDifference(this.toRgb({ clip: false }), sample.toRgb({ clip: false }), this.settings);
+  }
+
+  // Hover readout of the space, e.g. 'OKLCH(62.8%, 0.258, 29.2°)'
+  format(precision = 0): string {
+    const definition = requireColorSpace(this.space);
+    return definition.format(this.toRgb({ clip: false }), precision, this.settings);
+  }
+
+  // Valid CSS; sRGB-only formats (hex, rgb, hsl, hwb) clip out-of-gamut colors
+  toCss(format: CssColorFormat = 'hex'): string {
+    return formatCssColor(this.toRgb({ clip: false }), format);
+  }
+
+  // `SPACE(v1, v2, v3)` in channel order with 12 significant digits, readable by Color.parse
+  toString(): string {
+    const definition = requireColorSpace(this.space);
+    const values = getChannels(definition, this.settings)
+      .map(({ key }) => Number(this.channelValues[key].toPrecision(12)).toString());
+    return `${this.space}(${values.join(', ')})`;
+  }
+}
@@ -1,5 +1,7 @@
 // Color conversion utilities for Color Magic app
 
+import { lchabToMhvc, mhvcToLab, mhvcToMunsell, munsellToMhvc } from 'munsell';
+
 export interface RGBColor {
   r: number;
   g: number;
@@ -12,6 +14,24 @@ export interface HSVColor {
   v: number;
 }
 
+export interface HSLColor {
+  h: number;
+  s: number;
+  l: number;
+}
+
+export interface HWBColor {
+  h: number;
+  w: number;
+  b: number;
+}
+
+export interface HSIColor {
+  h: number;
+  s: number;
+  i: number;
+}
+
 export interface CMYKColor {
   c: number;
   m: number;
@@ -31,7 +51,108 @@ export interface YUVColor {
   v: number;
 }
 
-export type ColorModel = 'RGB' | 'HSV' | 'CMYK' | 'LAB' | 'YUV';
+export interface OKLABColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
+export interface OKLCHColor {
+  l: number;
+  c: number;
+  h: number;
+}
+
+// CIE XYZ tristimulus values with Y on a 0-100 scale
+export interface XYZColor {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Chromaticity coordinates x, y plus luminance Y (0-100)
+export interface XYYColor {
+  x: number;
+  y: number;
+  Y: number;
+}
+
+// Digital Y'CbCr in 8-bit code values
+export interface YCbCrColor {
+  y: number;
+  cb: number;
+  cr: number;
+}
+
+export interface LUVColor {
+  l: number;
+  u: number;
+  v: number;
+}
+
+// Polar form of CIELUV
+export interface LCHUVColor {
+  l: number;
+  c: number;
+  h: number;
+}
+
+// HSLuv: LCh(uv) with chroma rescaled to the sRGB gamut at each lightness and hue
+export interface HSLUVColor {
+  h: number;
+  s: number;
+  l: number;
+}
+
+// CIE 1976 UCS chromaticity coordinates
+export interface UVPrimeChromaticity {
+  u: number;
+  v: number;
+}
+
+// Color appearance correlates: lightness J, chroma C, hue angle h, colorfulness M, brightness Q
+export interface CAM16Color {
+  j: number;
+  c: number;
+  h: number;
+  m: number;
+  q: number;
+}
+
+// CAM16-UCS uniform space: J', a', b'
+export interface CAM16UCSColor {
+  j: number;
+  a: number;
+  b: number;
+}
+
+// Munsell hue (0-100 around the circle, 0 = 10RP), value (0-10) and chroma
+export interface MunsellColor {
+  h: number;
+  v: number;
+  c: number;
+}
+
+// Non-linear HDR signal (PQ or HLG) of BT.2020 R'G'B', each 0-1
+export interface HDRSignalColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// BT.2100 ICtCp (PQ variant): intensity plus blue-yellow and red-green chroma
+export interface ICTCPColor {
+  i: number;
+  ct: number;
+  cp: number;
+}
+
+// JzAzBz (Safdar et al. 2017) for absolute luminance up to 10000 cd/m²
+export interface JZAZBZColor {
+  jz: number;
+  az: number;
+  bz: number;
+}
 
 // RGB to HSV conversion
 export function rgbToHsv(rgb: RGBColor): HSVColor {
@@ -49,16 +170,73 @@ export function rgbToHsv(rgb: RGBColor): HSVColor {
     else if (max === g) h = (b - r) / delta + 2;
     else h = (r - g) / delta + 4;
   }
-  h = Math.round(h * 60);
+  h *= 60;
   if (h < 0) h += 360;
 
   const s = max === 0 ? 0 : delta / max;
   const v = max;
 
   return {
-    h: Math.round(h),
-    s: Math.round(s * 100),
-    v: Math.round(v * 100)
+    h,
+    s: s * 100,
+    v: v * 100
+  };
+}
+
+// RGB to HSL conversion (same hue as HSV; lightness is the midpoint of max and min)
+export function rgbToHsl(rgb: RGBColor): HSLColor {
+  const r = rgb.r / 255;
+  const g = rgb.g / 255;
+  const b = rgb.b / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+
+  const l = (max + min) / 2;
+  const s = delta === 0 ? 0 : delta / (1 - Math.abs(2 * l - 1));
+
+  return {
+    h: rgbToHsv(rgb).h,
+    s: s * 100,
+    l: l * 100
+  };
+}
+
+// RGB to HWB conversion (hue plus the amount of white and black mixed in)
+export function rgbToHwb(rgb: RGBColor): HWBColor {
+  const r = rgb.r / 255;
+  const g = rgb.g / 255;
+  const b = rgb.b / 255;
+
+  return {
+    h: rgbToHsv(rgb).h,
+    w: Math.min(r, g, b) * 100,
+    b: (1 - Math.max(r, g, b)) * 100
+  };
+}
+
+// RGB to HSI conversion (geometric hue, intensity is the channel average)
+export function rgbToHsi(rgb: RGBColor): HSIColor {
+  const r = rgb.r / 255;
+  const g = rgb.g / 255;
+  const b = rgb.b / 255;
+
+  const i = (r + g + b) / 3;
+  const s = i === 0 ? 0 : 1 - Math.min(r, g, b) / i;
+
+  const numerator = 0.5 * ((r - g) + (r - b));
+  const denominator = Math.sqrt((r - g) * (r - g) + (r - b) * (g - b));
+  let h = 0;
+  if (denominator !== 0) {
+    h = Math.acos(clampChannel(numerator / denominator, -1, 1)) * 180 / Math.PI;
+    if (b > g) h = 360 - h;
+  }
+
+  return {
+    h,
+    s: s * 100,
+    i: i * 100
   };
 }
 
@@ -74,286 +252,1766 @@ export function rgbToCmyk(rgb: RGBColor): CMYKColor {
   const y = k === 1 ? 0 : (1 - b - k) / (1 - k);
 
   return {
-    c: Math.round(c * 100),
-    m: Math.round(m * 100),
-    y: Math.round(y * 100),
-    k: Math.round(k * 100)
+    c: c * 100,
+    m: m * 100,
+    y: y * 100,
+    k: k * 100
   };
 }
 
-// RGB to LAB conversion (simplified approximation)
-export function rgbToLab(rgb: RGBColor): LABColor {
-  // Convert RGB to XYZ first
-  let r = rgb.r / 255;
-  let g = rgb.g / 255;
-  let b = rgb.b / 255;
+export type Vector3 = [number, number, number];
+export type Matrix3 = [Vector3, Vector3, Vector3];
 
-  // Apply gamma correction
-  r = r > 0.04045 ? Math.pow((r + 0.055) / 1.055, 2.4) : r / 12.92;
-  g = g > 0.04045 ? Math.pow((g + 0.055) / 1.055, 2.4) : g / 12.92;
-  b = b > 0.04045 ? Math.pow((b + 0.055) / 1.055, 2.4) : b / 12.92;
+export function multiplyMatrix(m: Matrix3, v: Vector3): Vector3 {
+  return [
+    m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+    m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+    m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2]
+  ];
+}
 
-  // Convert to XYZ
-  let x = (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047;
-  let y = (r * 0.2126 + g * 0.7152 + b * 0.0722) / 1.00000;
-  let z = (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883;
+function multiplyMatrices(a: Matrix3, b: Matrix3): Matrix3 {
+  const column = (j: number): Vector3 => [b[0][j], b[1][j], b[2][j]];
+  const c0 = multiplyMatrix(a, column(0));
+  const c1 = multiplyMatrix(a, column(1));
+  const c2 = multiplyMatrix(a, column(2));
+  return [
+    [c0[0], c1[0], c2[0]],
+    [c0[1], c1[1], c2[1]],
+    [c0[2], c1[2], c2[2]]
+  ];
+}
 
-  // Convert XYZ to LAB
-  x = x > 0.008856 ? Math.pow(x, 1/3) : (7.787 * x + 16/116);
-  y = y > 0.008856 ? Math.pow(y, 1/3) : (7.787 * y + 16/116);
-  z = z > 0.008856 ? Math.pow(z, 1/3) : (7.787 * z + 16/116);
+function invertMatrix(m: Matrix3): Matrix3 {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
 
-  const l = (116 * y) - 16;
-  const a = 500 * (x - y);
-  const bLab = 200 * (y - z);
+  return [
+    [A / det, -(b * i - c * h) / det, (b * f - c * e) / det],
+    [B / det, (a * i - c * g) / det, -(a * f - c * d) / det],
+    [C / det, -(a * h - b * g) / det, (a * e - b * d) / det]
+  ];
+}
 
-  return {
-    l: Math.round(l),
-    a: Math.round(a),
-    b: Math.round(bLab)
-  };
+// sRGB primaries (D65) and their exact inverse, so RGB -> XYZ -> RGB round-trips
+const SRGB_TO_XYZ: Matrix3 = [
+  [0.4123907992659595, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151036, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559185, 0.11919477979462599, 0.9505321522496606]
+];
+
+const XYZ_TO_SRGB: Matrix3 = [
+  [3.2409699419045213, -1.5373831775700935, -0.4986107602930033],
+  [-0.9692436362808798, 1.8759675015077206, 0.04155505740717561],
+  [0.05563007969699361, -0.20397695888897657, 1.0569715142428786]
+];
+
+export type WhitePoint = 'D50' | 'D65' | 'A' | 'F2' | 'C' | 'E';
+
+export type ChromaticAdaptation = 'Bradford' | 'CAT02' | 'VonKries';
+
+// CIE 1931 xy chromaticity coordinates
+export interface Chromaticity {
+  x: number;
+  y: number;
 }
 
-// RGB to YUV conversion
-export function rgbToYuv(rgb: RGBColor): YUVColor {
-  const r = rgb.r / 255;
-  const g = rgb.g / 255;
-  const b = rgb.b / 255;
+// CIE 1931 2° chromaticities of the supported reference whites
+export const WHITE_POINT_CHROMATICITIES: Record<WhitePoint, Chromaticity> = {
+  D50: { x: 0.34567, y: 0.35850 },
+  D65: { x: 0.31270, y: 0.32900 },
+  A: { x: 0.44757, y: 0.40745 },
+  F2: { x: 0.37208, y: 0.37529 },
+  C: { x: 0.31006, y: 0.31616 },
+  E: { x: 1 / 3, y: 1 / 3 }
+};
+
+// Cone response matrices used to adapt XYZ between reference whites
+const ADAPTATION_MATRICES: Record<ChromaticAdaptation, Matrix3> = {
+  Bradford: [
+    [0.8951, 0.2664, -0.1614],
+    [-0.7502, 1.7135, 0.0367],
+    [0.0389, -0.0685, 1.0296]
+  ],
+  CAT02: [
+    [0.7328, 0.4296, -0.1624],
+    [-0.7036, 1.6975, 0.0061],
+    [0.0030, 0.0136, 0.9834]
+  ],
+  VonKries: [
+    [0.40024, 0.70760, -0.08081],
+    [-0.22630, 1.16532, 0.04570],
+    [0.00000, 0.00000, 0.91822]
+  ]
+};
+
+export type YCbCrMatrix = 'BT601' | 'BT709' | 'BT2020';
+
+// full = 0-255 for every channel, limited = studio swing 16-235 (Y) / 16-240 (Cb, Cr)
+export type YCbCrRange = 'full' | 'limited';
+
+// How colors that land outside sRGB are brought back: per-channel clipping, chroma reduction at
+// constant lightness and hue in CIE LCh or Oklch, or the CSS Color 4 algorithm (Oklch with a JND)
+export type GamutMapping = 'clip' | 'lch' | 'oklch' | 'css4';
+
+// Encoding curve of an RGB space; 'gamma' uses the space's own exponent
+export type TransferFunction = 'srgb' | 'rec2020' | 'prophoto' | 'gamma' | 'linear';
 
-  const y = 0.299 * r + 0.587 * g + 0.114 * b;
-  const u = -0.14713 * r - 0.28886 * g + 0.436 * b;
-  const v = 0.615 * r - 0.51499 * g - 0.10001 * b;
+// An RGB space defined by its primaries, white point and transfer function
+export interface RGBSpace {
+  id: string;
+  name: string;
+  red: Chromaticity;
+  green: Chromaticity;
+  blue: Chromaticity;
+  white: Chromaticity;
+  transfer: TransferFunction;
+  gamma?: number;
+}
+
+export const RGB_SPACES: RGBSpace[] = [
+  {
+    id: 'srgb',
+    name: 'sRGB',
+    red: { x: 0.64, y: 0.33 },
+    green: { x: 0.30, y: 0.60 },
+    blue: { x: 0.15, y: 0.06 },
+    white: WHITE_POINT_CHROMATICITIES.D65,
+    transfer: 'srgb'
+  },
+  {
+    id: 'display-p3',
+    name: 'Display P3',
+    red: { x: 0.680, y: 0.320 },
+    green: { x: 0.265, y: 0.690 },
+    blue: { x: 0.150, y: 0.060 },
+    white: WHITE_POINT_CHROMATICITIES.D65,
+    transfer: 'srgb'
+  },
+  {
+    id: 'adobe-rgb',
+    name: 'Adobe RGB (1998)',
+    red: { x: 0.64, y: 0.33 },
+    green: { x: 0.21, y: 0.71 },
+    blue: { x: 0.15, y: 0.06 },
+    white: WHITE_POINT_CHROMATICITIES.D65,
+    transfer: 'gamma',
+    gamma: 563 / 256
+  },
+  {
+    id: 'rec2020',
+    name: 'Rec.2020',
+    red: { x: 0.708, y: 0.292 },
+    green: { x: 0.170, y: 0.797 },
+    blue: { x: 0.131, y: 0.046 },
+    white: WHITE_POINT_CHROMATICITIES.D65,
+    transfer: 'rec2020'
+  },
+  {
+    id: 'prophoto',
+    name: 'ProPhoto RGB',
+    red: { x: 0.734699, y: 0.265301 },
+    green: { x: 0.159597, y: 0.840403 },
+    blue: { x: 0.036598, y: 0.000105 },
+    white: WHITE_POINT_CHROMATICITIES.D50,
+    transfer: 'prophoto'
+  }
+];
+
+export type AppearanceModel = 'CAM16' | 'CIECAM02';
+
+export type Surround = 'average' | 'dim' | 'dark';
+
+// Viewing conditions for the color appearance models
+export interface ViewingConditions {
+  model: AppearanceModel;
+  // Luminance of the adapting field in cd/m²
+  adaptingLuminance: number;
+  // Relative luminance of the background, 0-100
+  backgroundLuminance: number;
+  surround: Surround;
+}
+
+// Settings shared by conversions that depend on viewing or encoding conventions
+export interface ConversionSettings {
+  whitePoint: WhitePoint;
+  adaptation: ChromaticAdaptation;
+  ycbcrMatrix: YCbCrMatrix;
+  ycbcrRange: YCbCrRange;
+  viewingConditions: ViewingConditions;
+  // Working space that RGB readouts and adjustments are expressed in
+  rgbSpace: RGBSpace;
+  // Absolute luminance (cd/m²) that image white maps to in the HDR models
+  peakLuminance: number;
+  // Applied wherever an adjusted color has to be shown on an sRGB display
+  gamutMapping: GamutMapping;
+}
+
+export const defaultConversionSettings: ConversionSettings = {
+  whitePoint: 'D65',
+  adaptation: 'Bradford',
+  ycbcrMatrix: 'BT709',
+  ycbcrRange: 'limited',
+  // sRGB reference viewing: 64 lux ambient, 20% grey background
+  viewingConditions: {
+    model: 'CAM16',
+    adaptingLuminance: 64 / Math.PI * 0.2,
+    backgroundLuminance: 20,
+    surround: 'average'
+  },
+  rgbSpace: RGB_SPACES[0],
+  peakLuminance: 1000,
+  gamutMapping: 'clip'
+};
+
+// Tristimulus values (Y = 1) of a chromaticity
+function chromaticityToXyz({ x, y }: Chromaticity): Vector3 {
+  return [x / y, 1, (1 - x - y) / y];
+}
+
+// Tristimulus values (Y = 1) of a reference white
+function whitePointXyz(whitePoint: WhitePoint): Vector3 {
+  return chromaticityToXyz(WHITE_POINT_CHROMATICITIES[whitePoint]);
+}
+
+const adaptationCache = new Map<string, Matrix3>();
+
+// Full adaptation matrix between two whites, cached since it is used per pixel
+function adaptationMatrix(from: Chromaticity, to: Chromaticity, method: ChromaticAdaptation): Matrix3 {
+  const key = `${from.x},${from.y}:${to.x},${to.y}:${method}`;
+  const cached = adaptationCache.get(key);
+  if (cached) return cached;
 
+  const cone = ADAPTATION_MATRICES[method];
+  const source = multiplyMatrix(cone, chromaticityToXyz(from));
+  const destination = multiplyMatrix(cone, chromaticityToXyz(to));
+  const scale: Matrix3 = [
+    [destination[0] / source[0], 0, 0],
+    [0, destination[1] / source[1], 0],
+    [0, 0, destination[2] / source[2]]
+  ];
+
+  const matrix = multiplyMatrices(invertMatrix(cone), multiplyMatrices(scale, cone));
+  adaptationCache.set(key, matrix);
+  return matrix;
+}
+
+// Adapt XYZ (Y = 1 scale) from one white to another
+function adaptXyz(xyz: Vector3, from: Chromaticity, to: Chromaticity, method: ChromaticAdaptation): Vector3 {
+  if (from.x === to.x && from.y === to.y) return xyz;
+  return multiplyMatrix(adaptationMatrix(from, to, method), xyz);
+}
+
+// CIE constants for the LAB companding curve
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+// sRGB gamma expansion of a 0-1 channel value (odd-symmetric for negative values, as in CSS Color 4)
+export function srgbToLinear(value: number): number {
+  const v = Math.abs(value);
+  return Math.sign(value) * (v > 0.04045 ? Math.pow((v + 0.055) / 1.055, 2.4) : v / 12.92);
+}
+
+// sRGB gamma compression of a linear 0-1 channel value (odd-symmetric for negative values)
+export function linearToSrgb(value: number): number {
+  const v = Math.abs(value);
+  return Math.sign(value) * (v > 0.0031308 ? 1.055 * Math.pow(v, 1 / 2.4) - 0.055 : 12.92 * v);
+}
+
+function clampChannel(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// Gamma-encoded 0-1 channels to 0-255, clipped to the displayable range unless `clip` is false
+function toRgb255(r: number, g: number, b: number, clip: boolean): RGBColor {
+  if (!clip) return { r: r * 255, g: g * 255, b: b * 255 };
   return {
-    y: Math.round(y * 255),
-    u: Math.round((u + 0.5) * 255),
-    v: Math.round((v + 0.5) * 255)
+    r: clampChannel(r * 255, 0, 255),
+    g: clampChannel(g * 255, 0, 255),
+    b: clampChannel(b * 255, 0, 255)
   };
 }
 
-// Get color values in selected model
-export function getColorInModel(rgb: RGBColor, model: ColorModel): string {
-  switch (model) {
-    case 'RGB':
-      return `RGB(${rgb.r}, ${rgb.g}, ${rgb.b})`;
-    case 'HSV':
-      const hsv = rgbToHsv(rgb);
-      return `HSV(${hsv.h}°, ${hsv.s}%, ${hsv.v}%)`;
-    case 'CMYK':
-      const cmyk = rgbToCmyk(rgb);
-      return `CMYK(${cmyk.c}%, ${cmyk.m}%, ${cmyk.y}%, ${cmyk.k}%)`;
-    case 'LAB':
-      const lab = rgbToLab(rgb);
-      return `LAB(${lab.l}, ${lab.a}, ${lab.b})`;
-    case 'YUV':
-      const yuv = rgbToYuv(rgb);
-      return `YUV(${yuv.y}, ${yuv.u}, ${yuv.v})`;
+// Decode a 0-1 channel of an RGB space to linear light (odd-symmetric for negative values)
+function decodeTransfer(value: number, space: RGBSpace): number {
+  const sign = value < 0 ? -1 : 1;
+  const v = Math.abs(value);
+
+  switch (space.transfer) {
+    case 'srgb':
+      return sign * srgbToLinear(v);
+    case 'rec2020': {
+      const alpha = 1.09929682680944;
+      const beta = 0.018053968510807;
+      return sign * (v < beta * 4.5 ? v / 4.5 : Math.pow((v + alpha - 1) / alpha, 1 / 0.45));
+    }
+    case 'prophoto':
+      return sign * (v < 16 / 512 ? v / 16 : Math.pow(v, 1.8));
+    case 'gamma':
+      return sign * Math.pow(v, space.gamma ?? 2.2);
     default:
-      return `RGB(${rgb.r}, ${rgb.g}, ${rgb.b})`;
+      return value;
   }
 }
 
-// Apply color model transformation to image data with adjustments
-export function transformImageData(imageData: ImageData, model: ColorModel, adjustments?: any): ImageData {
-  const data = new Uint8ClampedArray(imageData.data);
-  
-  for (let i = 0; i < data.length; i += 4) {
-    let rgb = { r: data[i], g: data[i + 1], b: data[i + 2] };
-    
-    // Apply manual adjustments first
-    if (adjustments) {
-      switch (model) {
-        case 'RGB':
-          if (adjustments.rgb) {
-            rgb.r = Math.max(0, Math.min(255, rgb.r + (adjustments.rgb.r || 0)));
-            rgb.g = Math.max(0, Math.min(255, rgb.g + (adjustments.rgb.g || 0)));
-            rgb.b = Math.max(0, Math.min(255, rgb.b + (adjustments.rgb.b || 0)));
-          }
-          break;
-        case 'HSV':
-          if (adjustments.hsv) {
-            const hsv = rgbToHsv(rgb);
-            hsv.h = (hsv.h + (adjustments.hsv.h || 0) + 360) % 360;
-            hsv.s = Math.max(0, Math.min(100, hsv.s + (adjustments.hsv.s || 0)));
-            hsv.v = Math.max(0, Math.min(100, hsv.v + (adjustments.hsv.v || 0)));
-            rgb = hsvToRgb(hsv);
-          }
-          break;
-        case 'CMYK':
-          if (adjustments.cmyk) {
-            const cmyk = rgbToCmyk(rgb);
-            cmyk.c = Math.max(0, Math.min(100, cmyk.c + (adjustments.cmyk.c || 0)));
-            cmyk.m = Math.max(0, Math.min(100, cmyk.m + (adjustments.cmyk.m || 0)));
-            cmyk.y = Math.max(0, Math.min(100, cmyk.y + (adjustments.cmyk.y || 0)));
-            cmyk.k = Math.max(0, Math.min(100, cmyk.k + (adjustments.cmyk.k || 0)));
-            rgb = cmykToRgb(cmyk);
-          }
-          break;
-        case 'LAB':
-          if (adjustments.lab) {
-            const lab = rgbToLab(rgb);
-            lab.l = Math.max(0, Math.min(100, lab.l + (adjustments.lab.l || 0)));
-            lab.a = Math.max(-128, Math.min(127, lab.a + (adjustments.lab.a || 0)));
-            lab.b = Math.max(-128, Math.min(127, lab.b + (adjustments.lab.b || 0)));
-            rgb = labToRgb(lab);
-          }
-          break;
-        case 'YUV':
-          if (adjustments.yuv) {
-            const yuv = rgbToYuv(rgb);
-            yuv.y = Math.max(0, Math.min(255, yuv.y + (adjustments.yuv.y || 0)));
-            yuv.u = Math.max(0, Math.min(255, yuv.u + (adjustments.yuv.u || 0)));
-            yuv.v = Math.max(0, Math.min(255, yuv.v + (adjustments.yuv.v || 0)));
-            rgb = yuvToRgb(yuv);
-          }
-          break;
-      }
-    }
-    
-    // Apply color model transformation for visualization
-    switch (model) {
-      case 'HSV':
-        const hsv = rgbToHsv(rgb);
-        // Enhance saturation and value for visual effect
-        data[i] = Math.min(255, rgb.r * (1 + hsv.s / 200));
-        data[i + 1] = Math.min(255, rgb.g * (1 + hsv.s / 200));
-        data[i + 2] = Math.min(255, rgb.b * (1 + hsv.v / 200));
-        break;
-      case 'CMYK':
-        const cmyk = rgbToCmyk(rgb);
-        // Simulate CMYK color space
-        data[i] = Math.max(0, 255 - (cmyk.c * 2.55 + cmyk.k * 2.55));
-        data[i + 1] = Math.max(0, 255 - (cmyk.m * 2.55 + cmyk.k * 2.55));
-        data[i + 2] = Math.max(0, 255 - (cmyk.y * 2.55 + cmyk.k * 2.55));
-        break;
-      case 'LAB':
-        const lab = rgbToLab(rgb);
-        // Enhance lab color space visualization
-        data[i] = Math.max(0, Math.min(255, lab.l * 2.55));
-        data[i + 1] = Math.max(0, Math.min(255, (lab.a + 128)));
-        data[i + 2] = Math.max(0, Math.min(255, (lab.b + 128)));
-        break;
-      case 'YUV':
-        const yuv = rgbToYuv(rgb);
-        // Apply YUV transformation
-        data[i] = yuv.y;
-        data[i + 1] = yuv.u;
-        data[i + 2] = yuv.v;
-        break;
-      default:
-        // RGB - apply adjusted values
-        data[i] = rgb.r;
-        data[i + 1] = rgb.g;
-        data[i + 2] = rgb.b;
-        break;
+// Encode a linear 0-1 channel with the RGB space's transfer function
+function encodeTransfer(value: number, space: RGBSpace): number {
+  const sign = value < 0 ? -1 : 1;
+  const v = Math.abs(value);
+
+  switch (space.transfer) {
+    case 'srgb':
+      return sign * linearToSrgb(v);
+    case 'rec2020': {
+      const alpha = 1.09929682680944;
+      const beta = 0.018053968510807;
+      return sign * (v < beta ? 4.5 * v : alpha * Math.pow(v, 0.45) - (alpha - 1));
     }
+    case 'prophoto':
+      return sign * (v < 1 / 512 ? 16 * v : Math.pow(v, 1 / 1.8));
+    case 'gamma':
+      return sign * Math.pow(v, 1 / (space.gamma ?? 2.2));
+    default:
+      return value;
   }
-  
-  return new ImageData(data, imageData.width, imageData.height);
 }
 
-// Convert HSV back to RGB
-export function hsvToRgb(hsv: HSVColor): RGBColor {
-  const h = hsv.h / 60;
-  const s = hsv.s / 100;
-  const v = hsv.v / 100;
+// Primaries are usable when they span a triangle; collinear or repeated ones make every conversion NaN.
+// The determinant of the xyz columns is twice the triangle's signed area on the xy diagram.
+export function hasIndependentPrimaries(space: RGBSpace): boolean {
+  const [[a, b, c], [d, e, f], [g, h, i]] = [space.red, space.green, space.blue]
+    .map(({ x, y }) => [x, y, 1 - x - y]);
+  const determinant = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return Math.abs(determinant) > 1e-6;
+}
 
-  const c = v * s;
-  const x = c * (1 - Math.abs((h % 2) - 1));
-  const m = v - c;
+// Keyed by the space object itself: settings are replaced, never mutated, and a lookup per pixel
+// has to stay cheap
+const rgbSpaceMatrixCache = new WeakMap<RGBSpace, { toXyz: Matrix3; fromXyz: Matrix3 }>();
 
-  let r = 0, g = 0, b = 0;
+// Both directions between the space's linear RGB and XYZ, derived from the primaries once per space
+function rgbSpaceMatrices(space: RGBSpace): { toXyz: Matrix3; fromXyz: Matrix3 } {
+  const cached = rgbSpaceMatrixCache.get(space);
+  if (cached) return cached;
 
-  if (h < 1) {
-    r = c; g = x; b = 0;
-  } else if (h < 2) {
-    r = x; g = c; b = 0;
-  } else if (h < 3) {
-    r = 0; g = c; b = x;
-  } else if (h < 4) {
-    r = 0; g = x; b = c;
-  } else if (h < 5) {
-    r = x; g = 0; b = c;
-  } else {
-    r = c; g = 0; b = x;
+  const r = chromaticityToXyz(space.red);
+  const g = chromaticityToXyz(space.green);
+  const b = chromaticityToXyz(space.blue);
+  const primaries: Matrix3 = [
+    [r[0], g[0], b[0]],
+    [r[1], g[1], b[1]],
+    [r[2], g[2], b[2]]
+  ];
+
+  // Scale each primary so that R = G = B = 1 lands on the white point
+  const [sr, sg, sb] = multiplyMatrix(invertMatrix(primaries), chromaticityToXyz(space.white));
+  const toXyz: Matrix3 = [
+    [primaries[0][0] * sr, primaries[0][1] * sg, primaries[0][2] * sb],
+    [primaries[1][0] * sr, primaries[1][1] * sg, primaries[1][2] * sb],
+    [primaries[2][0] * sr, primaries[2][1] * sg, primaries[2][2] * sb]
+  ];
+  const matrices = { toXyz, fromXyz: invertMatrix(toXyz) };
+  rgbSpaceMatrixCache.set(space, matrices);
+  return matrices;
+}
+
+// Linear RGB -> XYZ (relative to the space's own white) derived from the primaries
+export function rgbSpaceToXyzMatrix(space: RGBSpace): Matrix3 {
+  return rgbSpaceMatrices(space).toXyz;
+}
+
+// XYZ -> linear RGB for the space, the inverse of rgbSpaceToXyzMatrix
+export function xyzToRgbSpaceMatrix(space: RGBSpace): Matrix3 {
+  return rgbSpaceMatrices(space).fromXyz;
+}
+
+// Express an sRGB color (0-255) in another RGB working space (0-255, unclamped when out of gamut)
+export function rgbToWorkingSpace(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): RGBColor {
+  const space = settings.rgbSpace;
+  if (space.id === 'srgb') return rgb;
+
+  const xyz = adaptXyz(
+    multiplyMatrix(SRGB_TO_XYZ, [srgbToLinear(rgb.r / 255), srgbToLinear(rgb.g / 255), srgbToLinear(rgb.b / 255)]),
+    WHITE_POINT_CHROMATICITIES.D65,
+    space.white,
+    settings.adaptation
+  );
+  const [r, g, b] = multiplyMatrix(xyzToRgbSpaceMatrix(space), xyz);
+
+  return {
+    r: encodeTransfer(r, space) * 255,
+    g: encodeTransfer(g, space) * 255,
+    b: encodeTransfer(b, space) * 255
+  };
+}
+
+// RGB to CIE XYZ (Y = 0-100) relative to the configured reference white
+export function rgbToXyz(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): XYZColor {
+  const linear: Vector3 = [
+    srgbToLinear(rgb.r / 255),
+    srgbToLinear(rgb.g / 255),
+    srgbToLinear(rgb.b / 255)
+  ];
+  const [x, y, z] = adaptXyz(
+    multiplyMatrix(SRGB_TO_XYZ, linear),
+    WHITE_POINT_CHROMATICITIES.D65,
+    WHITE_POINT_CHROMATICITIES[settings.whitePoint],
+    settings.adaptation
+  );
+
+  return { x: x * 100, y: y * 100, z: z * 100 };
+}
+
+// CIE XYZ to xyY chromaticity coordinates; black takes the chromaticity of the reference white
+export function xyzToXyy(xyz: XYZColor, whitePoint: WhitePoint = 'D65'): XYYColor {
+  const sum = xyz.x + xyz.y + xyz.z;
+  if (sum === 0) {
+    const white = WHITE_POINT_CHROMATICITIES[whitePoint];
+    return { x: white.x, y: white.y, Y: 0 };
   }
 
+  return { x: xyz.x / sum, y: xyz.y / sum, Y: xyz.y };
+}
+
+// RGB to xyY conversion
+export function rgbToXyy(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): XYYColor {
+  return xyzToXyy(rgbToXyz(rgb, settings), settings.whitePoint);
+}
+
+// CIE XYZ (Y = 0-100) to LAB against the given reference white
+export function xyzToLab(xyz: XYZColor, whitePoint: WhitePoint = 'D65'): LABColor {
+  const white = whitePointXyz(whitePoint);
+  let x = xyz.x / 100 / white[0];
+  let y = xyz.y / 100 / white[1];
+  let z = xyz.z / 100 / white[2];
+
+  x = x > LAB_EPSILON ? Math.cbrt(x) : (LAB_KAPPA * x + 16) / 116;
+  y = y > LAB_EPSILON ? Math.cbrt(y) : (LAB_KAPPA * y + 16) / 116;
+  z = z > LAB_EPSILON ? Math.cbrt(z) : (LAB_KAPPA * z + 16) / 116;
+
   return {
-    r: Math.round((r + m) * 255),
-    g: Math.round((g + m) * 255),
-    b: Math.round((b + m) * 255)
+    l: (116 * y) - 16,
+    a: 500 * (x - y),
+    b: 200 * (y - z)
   };
 }
 
-// Convert CMYK back to RGB
-export function cmykToRgb(cmyk: CMYKColor): RGBColor {
-  const c = cmyk.c / 100;
-  const m = cmyk.m / 100;
-  const y = cmyk.y / 100;
-  const k = cmyk.k / 100;
+// RGB to LAB conversion
+export function rgbToLab(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): LABColor {
+  return xyzToLab(rgbToXyz(rgb, settings), settings.whitePoint);
+}
 
-  const r = 255 * (1 - c) * (1 - k);
-  const g = 255 * (1 - m) * (1 - k);
-  const b = 255 * (1 - y) * (1 - k);
+// CIE XYZ to CIE 1976 u'v' chromaticity; black takes the chromaticity of the reference white
+export function xyzToUvPrime(xyz: XYZColor, whitePoint: WhitePoint = 'D65'): UVPrimeChromaticity {
+  const denominator = xyz.x + 15 * xyz.y + 3 * xyz.z;
+  if (denominator === 0) {
+    const [x, y, z] = whitePointXyz(whitePoint);
+    return xyzToUvPrime({ x, y, z });
+  }
 
   return {
-    r: Math.round(r),
-    g: Math.round(g),
-    b: Math.round(b)
+    u: 4 * xyz.x / denominator,
+    v: 9 * xyz.y / denominator
   };
 }
 
-// Convert LAB back to RGB (simplified)
-export function labToRgb(lab: LABColor): RGBColor {
-  // Convert LAB to XYZ
-  let y = (lab.l + 16) / 116;
-  let x = lab.a / 500 + y;
-  let z = y - lab.b / 200;
+// RGB to u'v' chromaticity
+export function rgbToUvPrime(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): UVPrimeChromaticity {
+  return xyzToUvPrime(rgbToXyz(rgb, settings), settings.whitePoint);
+}
 
-  // Apply inverse transformation
-  const x3 = x * x * x;
-  const y3 = y * y * y;
-  const z3 = z * z * z;
+// CIE XYZ (Y = 0-100) to CIELUV against the given reference white
+export function xyzToLuv(xyz: XYZColor, whitePoint: WhitePoint = 'D65'): LUVColor {
+  const [wx, wy, wz] = whitePointXyz(whitePoint);
+  const white = xyzToUvPrime({ x: wx, y: wy, z: wz });
+  const yr = xyz.y / 100 / wy;
 
-  x = x3 > 0.008856 ? x3 : (x - 16/116) / 7.787;
-  y = y3 > 0.008856 ? y3 : (y - 16/116) / 7.787;
-  z = z3 > 0.008856 ? z3 : (z - 16/116) / 7.787;
+  const l = yr > LAB_EPSILON ? 116 * Math.cbrt(yr) - 16 : LAB_KAPPA * yr;
+  if (l === 0) return { l: 0, u: 0, v: 0 };
 
-  // Reference white D65
-  x *= 0.95047;
-  y *= 1.00000;
-  z *= 1.08883;
+  const { u, v } = xyzToUvPrime(xyz, whitePoint);
+  return {
+    l,
+    u: 13 * l * (u - white.u),
+    v: 13 * l * (v - white.v)
+  };
+}
 
-  // Convert XYZ to RGB
-  let r = x * 3.2406 + y * -1.5372 + z * -0.4986;
-  let g = x * -0.9689 + y * 1.8758 + z * 0.0415;
-  let b = x * 0.0557 + y * -0.2040 + z * 1.0570;
+// RGB to CIELUV conversion
+export function rgbToLuv(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): LUVColor {
+  return xyzToLuv(rgbToXyz(rgb, settings), settings.whitePoint);
+}
 
-  // Apply gamma correction
-  r = r > 0.0031308 ? 1.055 * Math.pow(r, 1/2.4) - 0.055 : 12.92 * r;
-  g = g > 0.0031308 ? 1.055 * Math.pow(g, 1/2.4) - 0.055 : 12.92 * g;
-  b = b > 0.0031308 ? 1.055 * Math.pow(b, 1/2.4) - 0.055 : 12.92 * b;
+// CIELUV to its polar LCh(uv) form
+function luvToLchuv(luv: LUVColor): LCHUVColor {
+  const c = Math.sqrt(luv.u * luv.u + luv.v * luv.v);
+  let h = Math.atan2(luv.v, luv.u) * 180 / Math.PI;
+  if (h < 0) h += 360;
+
+  return { l: luv.l, c, h };
+}
+
+// RGB to LCh(uv) conversion
+export function rgbToLchuv(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): LCHUVColor {
+  return luvToLchuv(rgbToLuv(rgb, settings));
+}
+
+// Lines bounding the sRGB gamut in the CIELUV u/v plane at lightness L, as [slope, intercept]
+function hsluvBounds(l: number): [number, number][] {
+  const sub1 = Math.pow(l + 16, 3) / 1560896;
+  const sub2 = sub1 > LAB_EPSILON ? sub1 : l / LAB_KAPPA;
+  const bounds: [number, number][] = [];
+
+  for (const [m1, m2, m3] of XYZ_TO_SRGB) {
+    for (const t of [0, 1]) {
+      const top1 = (284517 * m1 - 94839 * m3) * sub2;
+      const top2 = (838422 * m3 + 769860 * m2 + 731718 * m1) * l * sub2 - 769860 * t * l;
+      const bottom = (632260 * m3 - 126452 * m2) * sub2 + 126452 * t;
+      bounds.push([top1 / bottom, top2 / bottom]);
+    }
+  }
+
+  return bounds;
+}
+
+// Largest LCh(uv) chroma that stays inside sRGB at the given lightness and hue
+function hsluvMaxChroma(l: number, h: number): number {
+  const hue = h * Math.PI / 180;
+  let max = Infinity;
+
+  for (const [slope, intercept] of hsluvBounds(l)) {
+    const length = intercept / (Math.sin(hue) - slope * Math.cos(hue));
+    if (length >= 0) max = Math.min(max, length);
+  }
+
+  return max;
+}
+
+// RGB to HSLuv conversion (always sRGB against D65, as HSLuv is defined)
+export function rgbToHsluv(rgb: RGBColor): HSLUVColor {
+  const lch = rgbToLchuv(rgb, defaultConversionSettings);
+
+  if (lch.l > 99.9999999) return { h: lch.h, s: 0, l: 100 };
+  if (lch.l < 0.00000001) return { h: lch.h, s: 0, l: 0 };
 
   return {
-    r: Math.max(0, Math.min(255, Math.round(r * 255))),
-    g: Math.max(0, Math.min(255, Math.round(g * 255))),
-    b: Math.max(0, Math.min(255, Math.round(b * 255)))
+    h: lch.h,
+    s: Math.min(100, lch.c / hsluvMaxChroma(lch.l, lch.h) * 100),
+    l: lch.l
   };
 }
 
-// Convert YUV back to RGB
-export function yuvToRgb(yuv: YUVColor): RGBColor {
-  const y = yuv.y / 255;
-  const u = (yuv.u / 255) - 0.5;
-  const v = (yuv.v / 255) - 0.5;
+// Linear sRGB -> LMS and LMS' -> Oklab matrices (Björn Ottosson, 2020)
+const LINEAR_SRGB_TO_OKLAB_LMS = [
+  [0.4122214708, 0.5363325363, 0.0514459929],
+  [0.2119034982, 0.6806995451, 0.1073969566],
+  [0.0883024619, 0.2817188376, 0.6299787005]
+];
 
-  const r = y + 1.403 * v;
-  const g = y - 0.344 * u - 0.714 * v;
-  const b = y + 1.770 * u;
+const OKLAB_LMS_TO_LAB = [
+  [0.2104542553, 0.7936177850, -0.0040720468],
+  [1.9779984951, -2.4285922050, 0.4505937099],
+  [0.0259040371, 0.7827717662, -0.8086757660]
+];
 
+// RGB to Oklab conversion (L in 0-1, a/b roughly within +-0.4)
+export function rgbToOklab(rgb: RGBColor): OKLABColor {
+  const r = srgbToLinear(rgb.r / 255);
+  const g = srgbToLinear(rgb.g / 255);
+  const b = srgbToLinear(rgb.b / 255);
+
+  const lms = LINEAR_SRGB_TO_OKLAB_LMS;
+  const lCone = Math.cbrt(lms[0][0] * r + lms[0][1] * g + lms[0][2] * b);
+  const mCone = Math.cbrt(lms[1][0] * r + lms[1][1] * g + lms[1][2] * b);
+  const sCone = Math.cbrt(lms[2][0] * r + lms[2][1] * g + lms[2][2] * b);
+
+  const lab = OKLAB_LMS_TO_LAB;
   return {
-    r: Math.max(0, Math.min(255, Math.round(r * 255))),
-    g: Math.max(0, Math.min(255, Math.round(g * 255))),
-    b: Math.max(0, Math.min(255, Math.round(b * 255)))
+    l: lab[0][0] * lCone + lab[0][1] * mCone + lab[0][2] * sCone,
+    a: lab[1][0] * lCone + lab[1][1] * mCone + lab[1][2] * sCone,
+    b: lab[2][0] * lCone + lab[2][1] * mCone + lab[2][2] * sCone
   };
-}
\ No newline at end of file
+}
+
+// RGB to Oklch conversion (polar form of Oklab, hue in degrees)
+export function rgbToOklch(rgb: RGBColor): OKLCHColor {
+  const oklab = rgbToOklab(rgb);
+  const c = Math.sqrt(oklab.a * oklab.a + oklab.b * oklab.b);
+  let h = Math.atan2(oklab.b, oklab.a) * 180 / Math.PI;
+  if (h < 0) h += 360;
+
+  return { l: oklab.l, c, h };
+}
+
+// Surround factors F, c and Nc
+const SURROUND_FACTORS: Record<Surround, { f: number; c: number; nc: number }> = {
+  average: { f: 1.0, c: 0.69, nc: 1.0 },
+  dim: { f: 0.9, c: 0.59, nc: 0.9 },
+  dark: { f: 0.8, c: 0.525, nc: 0.8 }
+};
+
+const CAM16_MATRIX: Matrix3 = [
+  [0.401288, 0.650173, -0.051461],
+  [-0.250268, 1.204414, 0.045854],
+  [-0.002079, 0.048952, 0.953127]
+];
+
+const CAT02_MATRIX: Matrix3 = ADAPTATION_MATRICES.CAT02;
+
+// Hunt-Pointer-Estevez cone space (equal-energy normalized) that CIECAM02 compresses in
+const HPE_MATRIX: Matrix3 = [
+  [0.38971, 0.68898, -0.07868],
+  [-0.22981, 1.18340, 0.04641],
+  [0.00000, 0.00000, 1.00000]
+];
+
+const IDENTITY_MATRIX: Matrix3 = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+// Values derived from the viewing conditions that every appearance conversion needs
+interface AppearanceEnvironment {
+  adaptationMatrix: Matrix3;
+  compressionMatrix: Matrix3;
+  inverseAdaptationMatrix: Matrix3;
+  inverseCompressionMatrix: Matrix3;
+  n: number;
+  z: number;
+  nbb: number;
+  ncb: number;
+  nc: number;
+  c: number;
+  fl: number;
+  flRoot: number;
+  degree: Vector3;
+  aw: number;
+}
+
+// Keyed by the conditions object itself: settings are replaced, never mutated, and a lookup per
+// pixel has to stay cheap
+const environmentCache = new WeakMap<ViewingConditions, AppearanceEnvironment>();
+
+// Post-adaptation non-linear response compression (with the +0.1 offset of the standard)
+function compressResponse(value: number, fl: number): number {
+  const scaled = Math.pow(fl * Math.abs(value) / 100, 0.42);
+  return 400 * Math.sign(value) * scaled / (scaled + 27.13) + 0.1;
+}
+
+function expandResponse(value: number, fl: number): number {
+  const shifted = value - 0.1;
+  // The response saturates at 400, so keep just below it to stay finite
+  const magnitude = Math.min(Math.abs(shifted), 399.999);
+  return Math.sign(shifted) * 100 / fl * Math.pow(27.13 * magnitude / (400 - magnitude), 1 / 0.42);
+}
+
+// Build (and cache) the appearance environment for a D65 display white
+function appearanceEnvironment(conditions: ViewingConditions): AppearanceEnvironment {
+  const cached = environmentCache.get(conditions);
+  if (cached) return cached;
+
+  const { f, c, nc } = SURROUND_FACTORS[conditions.surround];
+  const la = conditions.adaptingLuminance;
+  const adaptationMatrix = conditions.model === 'CAM16' ? CAM16_MATRIX : CAT02_MATRIX;
+  const compressionMatrix = conditions.model === 'CAM16'
+    ? IDENTITY_MATRIX
+    : multiplyMatrices(HPE_MATRIX, invertMatrix(CAT02_MATRIX));
+
+  const k = 1 / (5 * la + 1);
+  const k4 = k * k * k * k;
+  const fl = 0.2 * k4 * (5 * la) + 0.1 * (1 - k4) * (1 - k4) * Math.cbrt(5 * la);
+  const n = Math.max(conditions.backgroundLuminance, 0.01) / 100;
+  const z = 1.48 + Math.sqrt(n);
+  const nbb = 0.725 * Math.pow(n, -0.2);
+  const d = clampChannel(f * (1 - (1 / 3.6) * Math.exp((-la - 42) / 92)), 0, 1);
+
+  const white = whitePointXyz('D65').map(value => value * 100) as Vector3;
+  const rgbWhite = multiplyMatrix(adaptationMatrix, white);
+  const degree = rgbWhite.map(value => d * 100 / value + 1 - d) as Vector3;
+  const adaptedWhite = multiplyMatrix(compressionMatrix, [
+    rgbWhite[0] * degree[0],
+    rgbWhite[1] * degree[1],
+    rgbWhite[2] * degree[2]
+  ]).map(value => compressResponse(value, fl));
+  const aw = (2 * adaptedWhite[0] + adaptedWhite[1] + 0.05 * adaptedWhite[2] - 0.305) * nbb;
+
+  const environment = {
+    adaptationMatrix,
+    compressionMatrix,
+    inverseAdaptationMatrix: invertMatrix(adaptationMatrix),
+    inverseCompressionMatrix: invertMatrix(compressionMatrix),
+    n,
+    z,
+    nbb,
+    ncb: nbb,
+    nc,
+    c,
+    fl,
+    flRoot: Math.pow(fl, 0.25),
+    degree,
+    aw
+  };
+  environmentCache.set(conditions, environment);
+  return environment;
+}
+
+// CIE XYZ (Y = 0-100, D65) to CAM16 / CIECAM02 appearance correlates
+export function xyzToCam16(xyz: XYZColor, conditions: ViewingConditions = defaultConversionSettings.viewingConditions): CAM16Color {
+  const env = appearanceEnvironment(conditions);
+
+  const rgb = multiplyMatrix(env.adaptationMatrix, [xyz.x, xyz.y, xyz.z]);
+  const [ra, ga, ba] = multiplyMatrix(env.compressionMatrix, [
+    rgb[0] * env.degree[0],
+    rgb[1] * env.degree[1],
+    rgb[2] * env.degree[2]
+  ]).map(value => compressResponse(value, env.fl));
+
+  const a = ra - 12 * ga / 11 + ba / 11;
+  const b = (ra + ga - 2 * ba) / 9;
+  let h = Math.atan2(b, a) * 180 / Math.PI;
+  if (h < 0) h += 360;
+
+  const et = 0.25 * (Math.cos(h * Math.PI / 180 + 2) + 3.8);
+  const achromatic = (2 * ra + ga + 0.05 * ba - 0.305) * env.nbb;
+  const j = achromatic <= 0 ? 0 : 100 * Math.pow(achromatic / env.aw, env.c * env.z);
+  const q = (4 / env.c) * Math.sqrt(j / 100) * (env.aw + 4) * env.flRoot;
+
+  const t = (50000 / 13 * env.nc * env.ncb * et * Math.sqrt(a * a + b * b)) / (ra + ga + 21 / 20 * ba);
+  const chroma = Math.pow(t, 0.9) * Math.sqrt(j / 100) * Math.pow(1.64 - Math.pow(0.29, env.n), 0.73);
+
+  return {
+    j,
+    c: chroma,
+    h,
+    m: chroma * env.flRoot,
+    q
+  };
+}
+
+// RGB to CAM16 / CIECAM02 appearance correlates under the configured viewing conditions
+export function rgbToCam16(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): CAM16Color {
+  return xyzToCam16(rgbToXyz(rgb, { ...settings, whitePoint: 'D65' }), settings.viewingConditions);
+}
+
+// CAM16 correlates to the CAM16-UCS uniform space
+export function cam16ToUcs(cam: CAM16Color): CAM16UCSColor {
+  const mPrime = Math.log(1 + 0.0228 * cam.m) / 0.0228;
+  const hue = cam.h * Math.PI / 180;
+
+  return {
+    j: 1.7 * cam.j / (1 + 0.007 * cam.j),
+    a: mPrime * Math.cos(hue),
+    b: mPrime * Math.sin(hue)
+  };
+}
+
+// RGB to CAM16-UCS conversion
+export function rgbToCam16Ucs(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): CAM16UCSColor {
+  return cam16ToUcs(rgbToCam16(rgb, settings));
+}
+
+// RGB to Munsell HVC, interpolated from the renotation data (Illuminant C, adapted with the configured method)
+export function rgbToMunsell(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): MunsellColor {
+  const lab = rgbToLab(rgb, { ...settings, whitePoint: 'C' });
+  const chroma = Math.sqrt(lab.a * lab.a + lab.b * lab.b);
+  const hue = Math.atan2(lab.b, lab.a) * 180 / Math.PI;
+  // Colors the inversion cannot settle on (far outside the renotation data) keep the last estimate
+  const [h, v, c] = lchabToMhvc(lab.l, chroma, hue < 0 ? hue + 360 : hue, 1e-6, 200, 'last');
+  return { h, v, c };
+}
+
+// Exact Munsell inversion is iterative, so whole-image passes interpolate a lookup
+// grid over RGB instead. Hue and chroma are stored as Cartesian components so
+// interpolation never has to wrap around the hue circle.
+const MUNSELL_GRID_SIZE = 17;
+
+let cachedMunsellGrid: { adaptation: ChromaticAdaptation; grid: Float64Array } | null = null;
+
+function munsellGrid(settings: ConversionSettings): Float64Array {
+  if (cachedMunsellGrid?.adaptation === settings.adaptation) return cachedMunsellGrid.grid;
+
+  const size = MUNSELL_GRID_SIZE;
+  const step = 255 / (size - 1);
+  const grid = new Float64Array(size * size * size * 3);
+  for (let r = 0; r < size; r++) {
+    for (let g = 0; g < size; g++) {
+      for (let b = 0; b < size; b++) {
+        const munsell = rgbToMunsell({ r: r * step, g: g * step, b: b * step }, settings);
+        const angle = munsell.h / 50 * Math.PI;
+        const index = ((r * size + g) * size + b) * 3;
+        grid[index] = munsell.v;
+        grid[index + 1] = munsell.c * Math.cos(angle);
+        grid[index + 2] = munsell.c * Math.sin(angle);
+      }
+    }
+  }
+  cachedMunsellGrid = { adaptation: settings.adaptation, grid };
+  return grid;
+}
+
+// Approximate RGB to Munsell HVC by trilinear interpolation of the lookup grid
+export function rgbToMunsellApprox(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): MunsellColor {
+  const grid = munsellGrid(settings);
+  const size = MUNSELL_GRID_SIZE;
+  const scale = (size - 1) / 255;
+  const position = [rgb.r * scale, rgb.g * scale, rgb.b * scale];
+  const base = position.map(p => Math.min(Math.floor(p), size - 2));
+  const t = position.map((p, axis) => p - base[axis]);
+
+  const result = [0, 0, 0];
+  for (let corner = 0; corner < 8; corner++) {
+    const dr = corner >> 2;
+    const dg = (corner >> 1) & 1;
+    const db = corner & 1;
+    const weight = (dr ? t[0] : 1 - t[0]) * (dg ? t[1] : 1 - t[1]) * (db ? t[2] : 1 - t[2]);
+    const index = (((base[0] + dr) * size + base[1] + dg) * size + base[2] + db) * 3;
+    result[0] += weight * grid[index];
+    result[1] += weight * grid[index + 1];
+    result[2] += weight * grid[index + 2];
+  }
+
+  const hue = Math.atan2(result[2], result[1]) * 50 / Math.PI;
+  return { h: hue < 0 ? hue + 100 : hue, v: result[0], c: Math.hypot(result[1], result[2]) };
+}
+
+// Munsell HVC to its notation, e.g. "5R 4.0/14.0" or "N 5.0" for neutrals
+export function formatMunsell(munsell: MunsellColor, digits = 1): string {
+  return mhvcToMunsell(munsell.h, munsell.v, munsell.c, digits);
+}
+
+// Parse a Munsell notation such as "5R 4/14", "2.5YR 6/8" or "N 5"; returns null if it is not valid
+export function parseMunsell(notation: string): MunsellColor | null {
+  try {
+    const [h, v, c] = munsellToMhvc(notation.trim());
+    if (![h, v, c].every(Number.isFinite) || v < 0 || v > 10 || c < 0) return null;
+    return { h, v, c };
+  } catch {
+    return null;
+  }
+}
+
+// Graphics white of BT.2408; the SDR tone-mapping curve works in multiples of this level
+export const SDR_REFERENCE_WHITE = 203;
+
+// SMPTE ST 2084 (PQ) constants
+const PQ_M1 = 2610 / 16384;
+const PQ_M2 = 2523 / 4096 * 128;
+const PQ_C1 = 3424 / 4096;
+const PQ_C2 = 2413 / 4096 * 32;
+const PQ_C3 = 2392 / 4096 * 32;
+
+// ARIB STD-B67 (HLG) constants
+const HLG_A = 0.17883277;
+const HLG_B = 1 - 4 * HLG_A;
+const HLG_C = 0.5 - HLG_A * Math.log(4 * HLG_A);
+
+// PQ inverse EOTF: absolute luminance (cd/m²) to a 0-1 signal
+export function pqEncode(nits: number, exponent = PQ_M2): number {
+  const y = Math.pow(Math.max(nits, 0) / 10000, PQ_M1);
+  return Math.pow((PQ_C1 + PQ_C2 * y) / (1 + PQ_C3 * y), exponent);
+}
+
+// PQ EOTF: 0-1 signal to absolute luminance (cd/m²)
+export function pqDecode(signal: number, exponent = PQ_M2): number {
+  const e = Math.pow(Math.max(signal, 0), 1 / exponent);
+  return 10000 * Math.pow(Math.max(e - PQ_C1, 0) / (PQ_C2 - PQ_C3 * e), 1 / PQ_M1);
+}
+
+// HLG OETF: relative scene light (0-1) to a 0-1 signal
+export function hlgEncode(value: number): number {
+  const e = Math.max(value, 0);
+  return e <= 1 / 12 ? Math.sqrt(3 * e) : HLG_A * Math.log(12 * e - HLG_B) + HLG_C;
+}
+
+// HLG inverse OETF: 0-1 signal to relative scene light
+export function hlgDecode(signal: number): number {
+  const e = Math.max(signal, 0);
+  return e <= 0.5 ? e * e / 3 : (Math.exp((e - HLG_C) / HLG_A) + HLG_B) / 12;
+}
+
+// HLG system gamma for a display with the given peak luminance (BT.2100 extended range)
+function hlgSystemGamma(peakLuminance: number): number {
+  return 1.2 + 0.42 * Math.log10(peakLuminance / 1000);
+}
+
+function rec2020Space(): RGBSpace {
+  return RGB_SPACES.find(space => space.id === 'rec2020')!;
+}
+
+// sRGB (0-255) to linear BT.2020 RGB relative to image white (1.0)
+function rgbToLinearRec2020(rgb: RGBColor): Vector3 {
+  const xyz = multiplyMatrix(SRGB_TO_XYZ, [srgbToLinear(rgb.r / 255), srgbToLinear(rgb.g / 255), srgbToLinear(rgb.b / 255)]);
+  return multiplyMatrix(xyzToRgbSpaceMatrix(rec2020Space()), xyz);
+}
+
+// Absolute luminance (cd/m²) of a pixel when image white is shown at the configured peak
+export function rgbToNits(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): number {
+  const linear = [srgbToLinear(rgb.r / 255), srgbToLinear(rgb.g / 255), srgbToLinear(rgb.b / 255)];
+  return (SRGB_TO_XYZ[1][0] * linear[0] + SRGB_TO_XYZ[1][1] * linear[1] + SRGB_TO_XYZ[1][2] * linear[2]) * settings.peakLuminance;
+}
+
+// RGB to the PQ-encoded BT.2020 signal
+export function rgbToPq(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): HDRSignalColor {
+  const [r, g, b] = rgbToLinearRec2020(rgb).map(value => pqEncode(value * settings.peakLuminance));
+  return { r, g, b };
+}
+
+// RGB to the HLG-encoded BT.2020 signal (image white is nominal peak)
+export function rgbToHlg(rgb: RGBColor): HDRSignalColor {
+  const [r, g, b] = rgbToLinearRec2020(rgb).map(hlgEncode);
+  return { r, g, b };
+}
+
+// Luminance (cd/m²) an HLG display with the configured peak shows for a pixel, via the HLG OOTF
+export function rgbToHlgNits(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): number {
+  const sceneLuminance = rgbToNits(rgb, settings) / settings.peakLuminance;
+  return settings.peakLuminance * Math.pow(sceneLuminance, hlgSystemGamma(settings.peakLuminance));
+}
+
+// BT.2100 ICtCp matrices: BT.2020 RGB to LMS, and PQ-encoded L'M'S' to ICtCp
+const ICTCP_LMS: Matrix3 = [
+  [1688 / 4096, 2146 / 4096, 262 / 4096],
+  [683 / 4096, 2951 / 4096, 462 / 4096],
+  [99 / 4096, 309 / 4096, 3688 / 4096]
+];
+const ICTCP_MATRIX: Matrix3 = [
+  [0.5, 0.5, 0],
+  [6610 / 4096, -13613 / 4096, 7003 / 4096],
+  [17933 / 4096, -17390 / 4096, -543 / 4096]
+];
+const ICTCP_LMS_INVERSE = invertMatrix(ICTCP_LMS);
+const ICTCP_MATRIX_INVERSE = invertMatrix(ICTCP_MATRIX);
+
+// RGB to ICtCp (BT.2100, PQ)
+export function rgbToIctcp(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): ICTCPColor {
+  const linear = rgbToLinearRec2020(rgb).map(value => value * settings.peakLuminance) as Vector3;
+  const lms = multiplyMatrix(ICTCP_LMS, linear).map(value => pqEncode(value)) as Vector3;
+  const [i, ct, cp] = multiplyMatrix(ICTCP_MATRIX, lms);
+  return { i, ct, cp };
+}
+
+// JzAzBz constants (Safdar et al. 2017)
+const JZ_B = 1.15;
+const JZ_G = 0.66;
+const JZ_D = -0.56;
+const JZ_D0 = 1.6295499532821565e-11;
+const JZ_P = 1.7 * 2523 / 32;
+const JZ_LMS: Matrix3 = [
+  [0.41478972, 0.579999, 0.0146480],
+  [-0.2015100, 1.120649, 0.0531008],
+  [-0.0166008, 0.264800, 0.6684799]
+];
+const JZ_IAB: Matrix3 = [
+  [0.5, 0.5, 0],
+  [3.524000, -4.066708, 0.542708],
+  [0.199076, 1.096799, -1.295875]
+];
+const JZ_LMS_INVERSE = invertMatrix(JZ_LMS);
+const JZ_IAB_INVERSE = invertMatrix(JZ_IAB);
+
+// Absolute CIE XYZ (D65, cd/m²) to JzAzBz
+export function xyzToJzazbz(xyz: XYZColor): JZAZBZColor {
+  const x = JZ_B * xyz.x - (JZ_B - 1) * xyz.z;
+  const y = JZ_G * xyz.y - (JZ_G - 1) * xyz.x;
+  const lms = multiplyMatrix(JZ_LMS, [x, y, xyz.z]).map(value => pqEncode(value, JZ_P)) as Vector3;
+  const [iz, az, bz] = multiplyMatrix(JZ_IAB, lms);
+
+  return {
+    jz: (1 + JZ_D) * iz / (1 + JZ_D * iz) - JZ_D0,
+    az,
+    bz
+  };
+}
+
+// RGB to JzAzBz, with image white at the configured peak luminance
+export function rgbToJzazbz(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): JZAZBZColor {
+  const xyz = rgbToXyz(rgb, { ...settings, whitePoint: 'D65' });
+  const scale = settings.peakLuminance / 100;
+  return xyzToJzazbz({ x: xyz.x * scale, y: xyz.y * scale, z: xyz.z * scale });
+}
+
+// Tone-map a pixel shown at the configured peak back to SDR. Extended Reinhard on luminance, measured
+// in multiples of SDR_REFERENCE_WHITE, keeps hue and maps the peak (not the reference white) exactly to white.
+export function toneMapToSdr(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): RGBColor {
+  const nits = rgbToNits(rgb, settings);
+  if (nits <= 0) return { r: 0, g: 0, b: 0 };
+
+  const x = nits / SDR_REFERENCE_WHITE;
+  const xMax = settings.peakLuminance / SDR_REFERENCE_WHITE;
+  const mapped = x * (1 + x / (xMax * xMax)) / (1 + x);
+  const scale = mapped / x * settings.peakLuminance / SDR_REFERENCE_WHITE;
+
+  return {
+    r: clampChannel(linearToSrgb(srgbToLinear(rgb.r / 255) * scale) * 255, 0, 255),
+    g: clampChannel(linearToSrgb(srgbToLinear(rgb.g / 255) * scale) * 255, 0, 255),
+    b: clampChannel(linearToSrgb(srgbToLinear(rgb.b / 255) * scale) * 255, 0, 255)
+  };
+}
+
+// Analog YUV (BT.601 luma weights with U/V scaled to +-0.436 / +-0.615)
+const YUV_WR = 0.299;
+const YUV_WB = 0.114;
+const YUV_WG = 1 - YUV_WR - YUV_WB;
+const YUV_U_MAX = 0.436;
+const YUV_V_MAX = 0.615;
+
+// RGB to YUV conversion
+export function rgbToYuv(rgb: RGBColor): YUVColor {
+  const r = rgb.r / 255;
+  const g = rgb.g / 255;
+  const b = rgb.b / 255;
+
+  const y = YUV_WR * r + YUV_WG * g + YUV_WB * b;
+  const u = YUV_U_MAX * (b - y) / (1 - YUV_WB);
+  const v = YUV_V_MAX * (r - y) / (1 - YUV_WR);
+
+  return {
+    y: y * 255,
+    u: (u + 0.5) * 255,
+    v: (v + 0.5) * 255
+  };
+}
+
+// Luma coefficients of the ITU-R recommendations
+const YCBCR_COEFFICIENTS: Record<YCbCrMatrix, { kr: number; kb: number }> = {
+  BT601: { kr: 0.299, kb: 0.114 },
+  BT709: { kr: 0.2126, kb: 0.0722 },
+  BT2020: { kr: 0.2627, kb: 0.0593 }
+};
+
+// 8-bit quantization of Y' (0-1) and Cb/Cr (+-0.5) for the given range
+function ycbcrQuantization(range: YCbCrRange): { yOffset: number; yScale: number; cScale: number } {
+  return range === 'limited'
+    ? { yOffset: 16, yScale: 219, cScale: 224 }
+    : { yOffset: 0, yScale: 255, cScale: 255 };
+}
+
+// RGB to digital Y'CbCr using the configured matrix and range
+export function rgbToYcbcr(rgb: RGBColor, settings: ConversionSettings = defaultConversionSettings): YCbCrColor {
+  const { kr, kb } = YCBCR_COEFFICIENTS[settings.ycbcrMatrix];
+  const kg = 1 - kr - kb;
+  const { yOffset, yScale, cScale } = ycbcrQuantization(settings.ycbcrRange);
+
+  const r = rgb.r / 255;
+  const g = rgb.g / 255;
+  const b = rgb.b / 255;
+
+  const y = kr * r + kg * g + kb * b;
+  const cb = (b - y) / (2 * (1 - kb));
+  const cr = (r - y) / (2 * (1 - kr));
+
+  return {
+    y: yOffset + yScale * y,
+    cb: 128 + cScale * cb,
+    cr: 128 + cScale * cr
+  };
+}
+
+// Human-readable name of the Y'CbCr convention, e.g. "BT.709 limited"
+export function describeYcbcrConvention(settings: ConversionSettings): string {
+  return `${settings.ycbcrMatrix.replace('BT', 'BT.')} ${settings.ycbcrRange}`;
+}
+
+// Convert HSV back to RGB
+export function hsvToRgb(hsv: HSVColor): RGBColor {
+  const h = hsv.h / 60;
+  const s = hsv.s / 100;
+  const v = hsv.v / 100;
+
+  const c = v * s;
+  const x = c * (1 - Math.abs((h % 2) - 1));
+  const m = v - c;
+
+  let r = 0, g = 0, b = 0;
+
+  if (h < 1) {
+    r = c; g = x; b = 0;
+  } else if (h < 2) {
+    r = x; g = c; b = 0;
+  } else if (h < 3) {
+    r = 0; g = c; b = x;
+  } else if (h < 4) {
+    r = 0; g = x; b = c;
+  } else if (h < 5) {
+    r = x; g = 0; b = c;
+  } else {
+    r = c; g = 0; b = x;
+  }
+
+  return {
+    r: (r + m) * 255,
+    g: (g + m) * 255,
+    b: (b + m) * 255
+  };
+}
+
+// Convert HSL back to RGB
+export function hslToRgb(hsl: HSLColor): RGBColor {
+  const s = hsl.s / 100;
+  const l = hsl.l / 100;
+
+  // HSL is a reshaped HSV: value is the top of the chroma range
+  const v = l + s * Math.min(l, 1 - l);
+  const sv = v === 0 ? 0 : 2 * (1 - l / v);
+
+  return hsvToRgb({ h: hsl.h, s: sv * 100, v: v * 100 });
+}
+
+// Convert HWB back to RGB
+export function hwbToRgb(hwb: HWBColor): RGBColor {
+  const w = hwb.w / 100;
+  const bl = hwb.b / 100;
+
+  // Whiteness and blackness of 100% or more in total describe a grey
+  if (w + bl >= 1) {
+    const grey = w / (w + bl) * 255;
+    return { r: grey, g: grey, b: grey };
+  }
+
+  const v = 1 - bl;
+  const s = 1 - w / v;
+
+  return hsvToRgb({ h: hwb.h, s: s * 100, v: v * 100 });
+}
+
+// Convert HSI back to RGB
+export function hsiToRgb(hsi: HSIColor, clip = true): RGBColor {
+  const h = ((hsi.h % 360) + 360) % 360;
+  const s = hsi.s / 100;
+  const i = hsi.i / 100;
+
+  // Each 120° sector has one channel at the minimum i * (1 - s)
+  const sector = Math.floor(h / 120);
+  const angle = (h - sector * 120) * Math.PI / 180;
+  const low = i * (1 - s);
+  const high = i * (1 + s * Math.cos(angle) / Math.cos(Math.PI / 3 - angle));
+  const mid = 3 * i - (low + high);
+
+  let r = 0, g = 0, b = 0;
+  if (sector === 0) {
+    r = high; g = mid; b = low;
+  } else if (sector === 1) {
+    r = low; g = high; b = mid;
+  } else {
+    r = mid; g = low; b = high;
+  }
+
+  return toRgb255(r, g, b, clip);
+}
+
+// Convert CMYK back to RGB
+export function cmykToRgb(cmyk: CMYKColor): RGBColor {
+  const c = cmyk.c / 100;
+  const m = cmyk.m / 100;
+  const y = cmyk.y / 100;
+  const k = cmyk.k / 100;
+
+  const r = 255 * (1 - c) * (1 - k);
+  const g = 255 * (1 - m) * (1 - k);
+  const b = 255 * (1 - y) * (1 - k);
+
+  return { r, g, b };
+}
+
+// Convert a color in the RGB working space (0-255) back to sRGB
+export function workingSpaceToRgb(color: RGBColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  const space = settings.rgbSpace;
+  if (space.id === 'srgb') {
+    return clip
+      ? { r: clampChannel(color.r, 0, 255), g: clampChannel(color.g, 0, 255), b: clampChannel(color.b, 0, 255) }
+      : color;
+  }
+
+  const linear: Vector3 = [
+    decodeTransfer(color.r / 255, space),
+    decodeTransfer(color.g / 255, space),
+    decodeTransfer(color.b / 255, space)
+  ];
+  const xyz = adaptXyz(
+    multiplyMatrix(rgbSpaceToXyzMatrix(space), linear),
+    space.white,
+    WHITE_POINT_CHROMATICITIES.D65,
+    settings.adaptation
+  );
+  const [r, g, b] = multiplyMatrix(XYZ_TO_SRGB, xyz);
+
+  return toRgb255(linearToSrgb(r), linearToSrgb(g), linearToSrgb(b), clip);
+}
+
+// Convert CIE XYZ (Y = 0-100, relative to the configured reference white) back to RGB
+export function xyzToRgb(xyz: XYZColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  const d65 = adaptXyz(
+    [xyz.x / 100, xyz.y / 100, xyz.z / 100],
+    WHITE_POINT_CHROMATICITIES[settings.whitePoint],
+    WHITE_POINT_CHROMATICITIES.D65,
+    settings.adaptation
+  );
+  const [r, g, b] = multiplyMatrix(XYZ_TO_SRGB, d65);
+
+  // Apply gamma correction
+  return toRgb255(linearToSrgb(r), linearToSrgb(g), linearToSrgb(b), clip);
+}
+
+// Convert xyY back to CIE XYZ
+export function xyyToXyz(xyy: XYYColor): XYZColor {
+  if (xyy.y === 0) return { x: 0, y: 0, z: 0 };
+
+  return {
+    x: xyy.x * xyy.Y / xyy.y,
+    y: xyy.Y,
+    z: (1 - xyy.x - xyy.y) * xyy.Y / xyy.y
+  };
+}
+
+// Convert xyY back to RGB
+export function xyyToRgb(xyy: XYYColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  return xyzToRgb(xyyToXyz(xyy), settings, clip);
+}
+
+// Convert LAB back to CIE XYZ against the given reference white
+export function labToXyz(lab: LABColor, whitePoint: WhitePoint = 'D65'): XYZColor {
+  const fy = (lab.l + 16) / 116;
+  const fx = lab.a / 500 + fy;
+  const fz = fy - lab.b / 200;
+
+  const fx3 = fx * fx * fx;
+  const fz3 = fz * fz * fz;
+
+  const x = fx3 > LAB_EPSILON ? fx3 : (116 * fx - 16) / LAB_KAPPA;
+  const y = lab.l > LAB_KAPPA * LAB_EPSILON ? fy * fy * fy : lab.l / LAB_KAPPA;
+  const z = fz3 > LAB_EPSILON ? fz3 : (116 * fz - 16) / LAB_KAPPA;
+
+  const white = whitePointXyz(whitePoint);
+  return { x: x * white[0] * 100, y: y * white[1] * 100, z: z * white[2] * 100 };
+}
+
+// Convert LAB back to RGB
+export function labToRgb(lab: LABColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  return xyzToRgb(labToXyz(lab, settings.whitePoint), settings, clip);
+}
+
+// Convert CIELUV back to CIE XYZ against the given reference white
+export function luvToXyz(luv: LUVColor, whitePoint: WhitePoint = 'D65'): XYZColor {
+  if (luv.l <= 0) return { x: 0, y: 0, z: 0 };
+
+  const [wx, wy, wz] = whitePointXyz(whitePoint);
+  const white = xyzToUvPrime({ x: wx, y: wy, z: wz });
+  const u = luv.u / (13 * luv.l) + white.u;
+  const v = luv.v / (13 * luv.l) + white.v;
+
+  const yr = luv.l > LAB_KAPPA * LAB_EPSILON ? Math.pow((luv.l + 16) / 116, 3) : luv.l / LAB_KAPPA;
+  const y = yr * wy * 100;
+
+  return {
+    x: y * 9 * u / (4 * v),
+    y,
+    z: y * (12 - 3 * u - 20 * v) / (4 * v)
+  };
+}
+
+// Convert CIELUV back to RGB
+export function luvToRgb(luv: LUVColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  return xyzToRgb(luvToXyz(luv, settings.whitePoint), settings, clip);
+}
+
+// Convert LCh(uv) back to RGB
+export function lchuvToRgb(lch: LCHUVColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  const hue = lch.h * Math.PI / 180;
+  return luvToRgb({
+    l: lch.l,
+    u: lch.c * Math.cos(hue),
+    v: lch.c * Math.sin(hue)
+  }, settings, clip);
+}
+
+// Convert HSLuv back to RGB
+export function hsluvToRgb(hsluv: HSLUVColor, clip = true): RGBColor {
+  let c = 0;
+  if (hsluv.l > 0.00000001 && hsluv.l < 99.9999999) {
+    c = hsluvMaxChroma(hsluv.l, hsluv.h) / 100 * hsluv.s;
+  }
+
+  return lchuvToRgb({ l: hsluv.l, c, h: hsluv.h }, defaultConversionSettings, clip);
+}
+
+// Convert Oklab back to RGB
+export function oklabToRgb(oklab: OKLABColor, clip = true): RGBColor {
+  const l = Math.pow(oklab.l + 0.3963377774 * oklab.a + 0.2158037573 * oklab.b, 3);
+  const m = Math.pow(oklab.l - 0.1055613458 * oklab.a - 0.0638541728 * oklab.b, 3);
+  const s = Math.pow(oklab.l - 0.0894841775 * oklab.a - 1.2914855480 * oklab.b, 3);
+
+  const r = 4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s;
+  const g = -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s;
+  const b = -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s;
+
+  return toRgb255(linearToSrgb(r), linearToSrgb(g), linearToSrgb(b), clip);
+}
+
+// Convert Oklch back to RGB
+export function oklchToRgb(oklch: OKLCHColor, clip = true): RGBColor {
+  const hue = oklch.h * Math.PI / 180;
+  return oklabToRgb({
+    l: oklch.l,
+    a: oklch.c * Math.cos(hue),
+    b: oklch.c * Math.sin(hue)
+  }, clip);
+}
+
+// Convert CAM16 / CIECAM02 lightness, chroma and hue back to CIE XYZ (Y = 0-100, D65)
+export function cam16ToXyz(
+  cam: Pick<CAM16Color, 'j' | 'c' | 'h'>,
+  conditions: ViewingConditions = defaultConversionSettings.viewingConditions
+): XYZColor {
+  if (cam.j <= 0) return { x: 0, y: 0, z: 0 };
+
+  const env = appearanceEnvironment(conditions);
+  const hue = cam.h * Math.PI / 180;
+  const sinH = Math.sin(hue);
+  const cosH = Math.cos(hue);
+
+  const alpha = cam.c / (Math.sqrt(cam.j / 100) * Math.pow(1.64 - Math.pow(0.29, env.n), 0.73));
+  const t = Math.pow(Math.max(alpha, 0), 1 / 0.9);
+  const et = 0.25 * (Math.cos(hue + 2) + 3.8);
+  const achromatic = env.aw * Math.pow(cam.j / 100, 1 / (env.c * env.z));
+
+  const p1 = 50000 / 13 * env.nc * env.ncb * et;
+  const p2 = achromatic / env.nbb + 0.305;
+  const p3 = 21 / 20;
+
+  let a = 0;
+  let b = 0;
+  if (t > 0) {
+    if (Math.abs(sinH) >= Math.abs(cosH)) {
+      const p4 = p1 / t / sinH;
+      b = p2 * (2 + p3) * (460 / 1403) /
+        (p4 + (2 + p3) * (220 / 1403) * (cosH / sinH) - 27 / 1403 + p3 * (6300 / 1403));
+      a = b * cosH / sinH;
+    } else {
+      const p5 = p1 / t / cosH;
+      a = p2 * (2 + p3) * (460 / 1403) /
+        (p5 + (2 + p3) * (220 / 1403) - (27 / 1403 - p3 * (6300 / 1403)) * (sinH / cosH));
+      b = a * sinH / cosH;
+    }
+  }
+
+  const compressed: Vector3 = [
+    (460 * p2 + 451 * a + 288 * b) / 1403,
+    (460 * p2 - 891 * a - 261 * b) / 1403,
+    (460 * p2 - 220 * a - 6300 * b) / 1403
+  ];
+  const adapted = multiplyMatrix(
+    env.inverseCompressionMatrix,
+    compressed.map(value => expandResponse(value, env.fl)) as Vector3
+  );
+  const [x, y, z] = multiplyMatrix(env.inverseAdaptationMatrix, [
+    adapted[0] / env.degree[0],
+    adapted[1] / env.degree[1],
+    adapted[2] / env.degree[2]
+  ]);
+
+  return { x, y, z };
+}
+
+// Convert CAM16 / CIECAM02 lightness, chroma and hue back to RGB
+export function cam16ToRgb(cam: Pick<CAM16Color, 'j' | 'c' | 'h'>, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  return xyzToRgb(cam16ToXyz(cam, settings.viewingConditions), { ...settings, whitePoint: 'D65' }, clip);
+}
+
+// Convert CAM16-UCS back to RGB
+export function cam16UcsToRgb(ucs: CAM16UCSColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  const env = appearanceEnvironment(settings.viewingConditions);
+  const mPrime = Math.sqrt(ucs.a * ucs.a + ucs.b * ucs.b);
+  let h = Math.atan2(ucs.b, ucs.a) * 180 / Math.PI;
+  if (h < 0) h += 360;
+
+  const m = (Math.exp(0.0228 * mPrime) - 1) / 0.0228;
+  return cam16ToRgb({
+    j: ucs.j / (1.7 - 0.007 * ucs.j),
+    c: m / env.flRoot,
+    h
+  }, settings, clip);
+}
+
+// Convert Munsell HVC back to RGB through the renotation data
+export function munsellToRgb(munsell: MunsellColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  const [l, a, b] = mhvcToLab(munsell.h, munsell.v, munsell.c);
+  return labToRgb({ l, a, b }, { ...settings, whitePoint: 'C' }, clip);
+}
+
+// Linear BT.2020 RGB relative to image white back to sRGB (0-255)
+function linearRec2020ToRgb(linear: Vector3, clip: boolean): RGBColor {
+  const [r, g, b] = multiplyMatrix(XYZ_TO_SRGB, multiplyMatrix(rgbSpaceToXyzMatrix(rec2020Space()), linear));
+
+  return toRgb255(linearToSrgb(r), linearToSrgb(g), linearToSrgb(b), clip);
+}
+
+// Convert a PQ-encoded BT.2020 signal back to RGB
+export function pqToRgb(pq: HDRSignalColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  return linearRec2020ToRgb([pq.r, pq.g, pq.b].map(value => pqDecode(value) / settings.peakLuminance) as Vector3, clip);
+}
+
+// Convert an HLG-encoded BT.2020 signal back to RGB
+export function hlgToRgb(hlg: HDRSignalColor, clip = true): RGBColor {
+  return linearRec2020ToRgb([hlgDecode(hlg.r), hlgDecode(hlg.g), hlgDecode(hlg.b)], clip);
+}
+
+// Convert ICtCp back to RGB
+export function ictcpToRgb(ictcp: ICTCPColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  const lms = multiplyMatrix(ICTCP_MATRIX_INVERSE, [ictcp.i, ictcp.ct, ictcp.cp]).map(value => pqDecode(value)) as Vector3;
+  const linear = multiplyMatrix(ICTCP_LMS_INVERSE, lms).map(value => value / settings.peakLuminance) as Vector3;
+  return linearRec2020ToRgb(linear, clip);
+}
+
+// Convert JzAzBz back to absolute CIE XYZ (D65, cd/m²)
+export function jzazbzToXyz(jzazbz: JZAZBZColor): XYZColor {
+  const jz = jzazbz.jz + JZ_D0;
+  const iz = jz / (1 + JZ_D - JZ_D * jz);
+  const lms = multiplyMatrix(JZ_IAB_INVERSE, [iz, jzazbz.az, jzazbz.bz]).map(value => pqDecode(value, JZ_P)) as Vector3;
+  const [xp, yp, z] = multiplyMatrix(JZ_LMS_INVERSE, lms);
+
+  const x = (xp + (JZ_B - 1) * z) / JZ_B;
+  const y = (yp + (JZ_G - 1) * x) / JZ_G;
+  return { x, y, z };
+}
+
+// Convert JzAzBz back to RGB, with image white at the configured peak luminance
+export function jzazbzToRgb(jzazbz: JZAZBZColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  const xyz = jzazbzToXyz(jzazbz);
+  const scale = 100 / settings.peakLuminance;
+  return xyzToRgb({ x: xyz.x * scale, y: xyz.y * scale, z: xyz.z * scale }, { ...settings, whitePoint: 'D65' }, clip);
+}
+
+// Convert Y'CbCr code values back to RGB
+export function ycbcrToRgb(ycbcr: YCbCrColor, settings: ConversionSettings = defaultConversionSettings, clip = true): RGBColor {
+  const { kr, kb } = YCBCR_COEFFICIENTS[settings.ycbcrMatrix];
+  const kg = 1 - kr - kb;
+  const { yOffset, yScale, cScale } = ycbcrQuantization(settings.ycbcrRange);
+
+  const y = (ycbcr.y - yOffset) / yScale;
+  const cb = (ycbcr.cb - 128) / cScale;
+  const cr = (ycbcr.cr - 128) / cScale;
+
+  const r = y + 2 * (1 - kr) * cr;
+  const b = y + 2 * (1 - kb) * cb;
+  const g = (y - kr * r - kb * b) / kg;
+
+  return toRgb255(r, g, b, clip);
+}
+
+// Convert YUV back to RGB (exact inverse of rgbToYuv)
+export function yuvToRgb(yuv: YUVColor, clip = true): RGBColor {
+  const y = yuv.y / 255;
+  const u = (yuv.u / 255) - 0.5;
+  const v = (yuv.v / 255) - 0.5;
+
+  const r = y + v * (1 - YUV_WR) / YUV_V_MAX;
+  const b = y + u * (1 - YUV_WB) / YUV_U_MAX;
+  const g = (y - YUV_WR * r - YUV_WB * b) / YUV_WG;
+
+  return toRgb255(r, g, b, clip);
+}
+
+// CIE ΔE*ab color differences between two LAB colors, all relative to the same reference white
+export interface ColorDifference {
+  deltaE76: number;
+  deltaE94: number;
+  deltaE2000: number;
+  deltaECMC: number;
+}
+
+export type DeltaE94Application = 'graphicArts' | 'textiles';
+
+// Weighting constants of CIE94 per application
+const DELTA_E94_WEIGHTS: Record<DeltaE94Application, { kL: number; k1: number; k2: number }> = {
+  graphicArts: { kL: 1, k1: 0.045, k2: 0.015 },
+  textiles: { kL: 2, k1: 0.048, k2: 0.014 }
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// CIE76: Euclidean distance in LAB
+export function deltaE76(reference: LABColor, sample: LABColor): number {
+  return Math.hypot(reference.l - sample.l, reference.a - sample.a, reference.b - sample.b);
+}
+
+// CIE94; chroma and hue weights depend on the reference color, so the metric is not symmetric
+export function deltaE94(reference: LABColor, sample: LABColor, application: DeltaE94Application = 'graphicArts'): number {
+  const { kL, k1, k2 } = DELTA_E94_WEIGHTS[application];
+  const c1 = Math.hypot(reference.a, reference.b);
+  const c2 = Math.hypot(sample.a, sample.b);
+
+  const dl = reference.l - sample.l;
+  const dc = c1 - c2;
+  // ΔH² from the remaining distance; can dip below zero through rounding
+  const dh2 = Math.max(0, (reference.a - sample.a) ** 2 + (reference.b - sample.b) ** 2 - dc * dc);
+
+  const sc = 1 + k1 * c1;
+  const sh = 1 + k2 * c1;
+  return Math.sqrt((dl / kL) ** 2 + (dc / sc) ** 2 + dh2 / (sh * sh));
+}
+
+// CIEDE2000 (Sharma, Wu and Dalal's formulation) with parametric factors kL, kC, kH
+export function deltaE2000(reference: LABColor, sample: LABColor, kL = 1, kC = 1, kH = 1): number {
+  const cBar = (Math.hypot(reference.a, reference.b) + Math.hypot(sample.a, sample.b)) / 2;
+  const cBar7 = Math.pow(cBar, 7);
+  const g = 0.5 * (1 - Math.sqrt(cBar7 / (cBar7 + Math.pow(25, 7))));
+
+  // a' rescaled to even out the blue region, then C' and h' from it
+  const prime = ({ l, a, b }: LABColor) => {
+    const aPrime = (1 + g) * a;
+    const c = Math.hypot(aPrime, b);
+    let h = c === 0 ? 0 : Math.atan2(b, aPrime) * 180 / Math.PI;
+    if (h < 0) h += 360;
+    return { l, c, h };
+  };
+  const p1 = prime(reference);
+  const p2 = prime(sample);
+
+  const dl = p2.l - p1.l;
+  const dc = p2.c - p1.c;
+  let dhDegrees = 0;
+  if (p1.c * p2.c !== 0) {
+    dhDegrees = p2.h - p1.h;
+    if (dhDegrees > 180) dhDegrees -= 360;
+    else if (dhDegrees < -180) dhDegrees += 360;
+  }
+  const dh = 2 * Math.sqrt(p1.c * p2.c) * Math.sin(toRadians(dhDegrees / 2));
+
+  const lBar = (p1.l + p2.l) / 2;
+  const cBarPrime = (p1.c + p2.c) / 2;
+  let hBar = p1.h + p2.h;
+  if (p1.c * p2.c !== 0) {
+    if (Math.abs(p1.h - p2.h) <= 180) hBar /= 2;
+    else hBar = hBar < 360 ? (hBar + 360) / 2 : (hBar - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(hBar - 30))
+    + 0.24 * Math.cos(toRadians(2 * hBar))
+    + 0.32 * Math.cos(toRadians(3 * hBar + 6))
+    - 0.20 * Math.cos(toRadians(4 * hBar - 63));
+
+  const lBar50 = (lBar - 50) ** 2;
+  const sl = 1 + 0.015 * lBar50 / Math.sqrt(20 + lBar50);
+  const sc = 1 + 0.045 * cBarPrime;
+  const sh = 1 + 0.015 * cBarPrime * t;
+
+  const cBarPrime7 = Math.pow(cBarPrime, 7);
+  const rc = 2 * Math.sqrt(cBarPrime7 / (cBarPrime7 + Math.pow(25, 7)));
+  const dTheta = 30 * Math.exp(-(((hBar - 275) / 25) ** 2));
+  const rt = -Math.sin(toRadians(2 * dTheta)) * rc;
+
+  const lTerm = dl / (kL * sl);
+  const cTerm = dc / (kC * sc);
+  const hTerm = dh / (kH * sh);
+  return Math.sqrt(lTerm * lTerm + cTerm * cTerm + hTerm * hTerm + rt * cTerm * hTerm);
+}
+
+// CMC l:c (1984); 2:1 for acceptability, 1:1 for perceptibility. Not symmetric, like CIE94.
+export function deltaECMC(reference: LABColor, sample: LABColor, lightness = 2, chroma = 1): number {
+  const c1 = Math.hypot(reference.a, reference.b);
+  const c2 = Math.hypot(sample.a, sample.b);
+  let h1 = Math.atan2(reference.b, reference.a) * 180 / Math.PI;
+  if (h1 < 0) h1 += 360;
+
+  const dl = reference.l - sample.l;
+  const dc = c1 - c2;
+  const dh2 = Math.max(0, (reference.a - sample.a) ** 2 + (reference.b - sample.b) ** 2 - dc * dc);
+
+  const c14 = Math.pow(c1, 4);
+  const f = Math.sqrt(c14 / (c14 + 1900));
+  const t = h1 >= 164 && h1 <= 345
+    ? 0.56 + Math.abs(0.2 * Math.cos(toRadians(h1 + 168)))
+    : 0.36 + Math.abs(0.4 * Math.cos(toRadians(h1 + 35)));
+
+  const sl = reference.l < 16 ? 0.511 : 0.040975 * reference.l / (1 + 0.01765 * reference.l);
+  const sc = 0.0638 * c1 / (1 + 0.0131 * c1) + 0.638;
+  const sh = sc * (f * t + 1 - f);
+
+  return Math.sqrt((dl / (lightness * sl)) ** 2 + (dc / (chroma * sc)) ** 2 + dh2 / (sh * sh));
+}
+
+// Every ΔE variant between a reference and a sample RGB color, through rgbToLab with the given settings
+export function rgbDifference(reference: RGBColor, sample: RGBColor, settings: ConversionSettings = defaultConversionSettings): ColorDifference {
+  const lab1 = rgbToLab(reference, settings);
+  const lab2 = rgbToLab(sample, settings);
+
+  return {
+    deltaE76: deltaE76(lab1, lab2),
+    deltaE94: deltaE94(lab1, lab2),
+    deltaE2000: deltaE2000(lab1, lab2),
+    deltaECMC: deltaECMC(lab1, lab2)
+  };
+}
+
+// sRGB slack (0-255 units) for round-trip error when checking the gamut; Munsell inverts iteratively
+const GAMUT_EPSILON = 0.01;
+
+// Oklch just-noticeable difference used by CSS Color 4 gamut mapping
+const CSS_GAMUT_JND = 0.02;
+
+// Whether an unclipped sRGB color (0-255) is displayable
+export function isInGamut(rgb: RGBColor): boolean {
+  return [rgb.r, rgb.g, rgb.b].every(value => value >= -GAMUT_EPSILON && value <= 255 + GAMUT_EPSILON);
+}
+
+// Clamp each sRGB channel to 0-255
+export function clipRgb(rgb: RGBColor): RGBColor {
+  return {
+    r: clampChannel(rgb.r, 0, 255),
+    g: clampChannel(rgb.g, 0, 255),
+    b: clampChannel(rgb.b, 0, 255)
+  };
+}
+
+// Largest chroma in [0, chroma] that `toRgb` can show, by bisection at constant lightness and hue
+function reduceChroma(chroma: number, precision: number, toRgb: (chroma: number) => RGBColor): RGBColor {
+  let min = 0;
+  let max = chroma;
+  while (max - min > precision) {
+    const mid = (min + max) / 2;
+    if (isInGamut(toRgb(mid))) min = mid;
+    else max = mid;
+  }
+  return clipRgb(toRgb(min));
+}
+
+// Euclidean distance in Oklab
+function deltaEOK(a: OKLABColor, b: OKLABColor): number {
+  return Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b);
+}
+
+// CSS Color 4 gamut mapping: bisect Oklch chroma, accepting a clipped color once it is within a JND
+function cssGamutMap(oklab: OKLABColor): RGBColor {
+  const chroma = Math.hypot(oklab.a, oklab.b);
+  const hue = Math.atan2(oklab.b, oklab.a);
+  const atChroma = (c: number): OKLABColor => ({ l: oklab.l, a: c * Math.cos(hue), b: c * Math.sin(hue) });
+
+  let clipped = clipRgb(oklabToRgb(oklab, false));
+  if (deltaEOK(rgbToOklab(clipped), oklab) < CSS_GAMUT_JND) return clipped;
+
+  let min = 0;
+  let max = chroma;
+  let minInGamut = true;
+  while (max - min > 1e-4) {
+    const mid = (min + max) / 2;
+    const current = atChroma(mid);
+    const rgb = oklabToRgb(current, false);
+    if (minInGamut && isInGamut(rgb)) {
+      min = mid;
+      continue;
+    }
+
+    clipped = clipRgb(rgb);
+    const error = deltaEOK(rgbToOklab(clipped), current);
+    if (error < CSS_GAMUT_JND) {
+      if (CSS_GAMUT_JND - error < 1e-4) return clipped;
+      minInGamut = false;
+      min = mid;
+    } else {
+      max = mid;
+    }
+  }
+  return clipped;
+}
+
+// Bring an unclipped sRGB color (0-255) into gamut with the given strategy
+export function mapToGamut(rgb: RGBColor, method: GamutMapping = 'clip', settings: ConversionSettings = defaultConversionSettings): RGBColor {
+  if (method === 'clip' || isInGamut(rgb)) return clipRgb(rgb);
+
+  if (method === 'lch') {
+    const { l, a, b } = rgbToLab(rgb, settings);
+    if (l >= 100) return { r: 255, g: 255, b: 255 };
+    if (l <= 0) return { r: 0, g: 0, b: 0 };
+    const hue = Math.atan2(b, a);
+    return reduceChroma(Math.hypot(a, b), 1e-3, c => labToRgb({ l, a: c * Math.cos(hue), b: c * Math.sin(hue) }, settings, false));
+  }
+
+  const oklab = rgbToOklab(rgb);
+  if (oklab.l >= 1) return { r: 255, g: 255, b: 255 };
+  if (oklab.l <= 0) return { r: 0, g: 0, b: 0 };
+  if (method === 'css4') return cssGamutMap(oklab);
+
+  const hue = Math.atan2(oklab.b, oklab.a);
+  return reduceChroma(Math.hypot(oklab.a, oklab.b), 1e-5, c => oklabToRgb({ l: oklab.l, a: c * Math.cos(hue), b: c * Math.sin(hue) }, false));
+}
+
+// WCAG 2.x relative luminance (0-1) of a display sRGB color
+export function relativeLuminance(rgb: RGBColor): number {
+  const { r, g, b } = clipRgb(rgb);
+  return 0.2126 * srgbToLinear(r / 255) + 0.7152 * srgbToLinear(g / 255) + 0.0722 * srgbToLinear(b / 255);
+}
+
+// WCAG 2.x contrast ratio, 1-21; symmetric in its arguments
+export function contrastRatio(foreground: RGBColor, background: RGBColor): number {
+  const l1 = relativeLuminance(foreground);
+  const l2 = relativeLuminance(background);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+// Minimum WCAG 2.1 ratios; large text is 18pt, or 14pt bold
+export const WCAG_CONTRAST_LEVELS = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 }
+} as const;
+
+// APCA screen luminance: plain 2.4 power curve with a soft clamp near black (APCA-W3 0.0.98G-4g)
+function apcaLuminance(rgb: RGBColor): number {
+  const { r, g, b } = clipRgb(rgb);
+  const y = 0.2126729 * Math.pow(r / 255, 2.4) + 0.7151522 * Math.pow(g / 255, 2.4) + 0.072175 * Math.pow(b / 255, 2.4);
+  return y < 0.022 ? y + Math.pow(0.022 - y, 1.414) : y;
+}
+
+// APCA lightness contrast Lc, about -108 to 106. Order matters: positive for dark text on a light
+// background, negative for light text on a dark one.
+export function apcaContrast(text: RGBColor, background: RGBColor): number {
+  const yText = apcaLuminance(text);
+  const yBackground = apcaLuminance(background);
+  if (Math.abs(yBackground - yText) < 0.0005) return 0;
+
+  if (yBackground > yText) {
+    const sapc = (Math.pow(yBackground, 0.56) - Math.pow(yText, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (Math.pow(yBackground, 0.65) - Math.pow(yText, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+// A color that meets a contrast target after changing only its Oklch lightness
+export interface ContrastSuggestion {
+  rgb: RGBColor;
+  // Oklch lightness, 0-1
+  lightness: number;
+  ratio: number;
+}
+
+// Nearest Oklch lightness, darker and lighter, at which `color` reaches `targetRatio` against
+// `against`. Chroma and hue are kept where the gamut allows; null when no lightness in that direction passes.
+export function suggestContrastLightness(
+  color: RGBColor,
+  against: RGBColor,
+  targetRatio: number,
+  settings: ConversionSettings = defaultConversionSettings
+): { darker: ContrastSuggestion | null; lighter: ContrastSuggestion | null } {
+  const { l, c, h } = rgbToOklch(color);
+  const at = (lightness: number): ContrastSuggestion => {
+    const rgb = mapToGamut(oklchToRgb({ l: lightness, c, h }, false), settings.gamutMapping, settings);
+    return { rgb, lightness, ratio: contrastRatio(rgb, against) };
+  };
+
+  // Contrast grows monotonically away from the other color's luminance, so bisect towards the edge
+  const search = (edge: number): ContrastSuggestion | null => {
+    const extreme = at(edge);
+    if (extreme.ratio < targetRatio) return null;
+    let near = l;
+    let far = edge;
+    for (let i = 0; i < 30; i++) {
+      const mid = (near + far) / 2;
+      if (at(mid).ratio >= targetRatio) far = mid;
+      else near = mid;
+    }
+    return at(far);
+  };
+
+  return { darker: search(0), lighter: search(1) };
+}
@@ -0,0 +1,68 @@
+// Nearest named color by CIEDE2000 in a set of bundled dictionaries
+
+import { LABColor, RGBColor, deltaE2000, rgbToLab } from './colorConversions';
+import { parseCssColor } from './cssColor';
+import { CSS_NAMED_COLORS } from './cssNamedColors';
+import { ISCC_NBS_COLORS } from './isccNbsColors';
+import { X11_COLORS } from './x11Colors';
+import { XKCD_COLORS } from './xkcdColors';
+
+export type ColorNameDictionary = 'css' | 'x11' | 'xkcd' | 'iscc-nbs';
+
+export const COLOR_NAME_DICTIONARIES: { id: ColorNameDictionary; label: string; description: string; colors: Record<string, string> }[] = [
+  { id: 'css', label: 'CSS', description: 'CSS Color 4 named colors', colors: CSS_NAMED_COLORS },
+  { id: 'x11', label: 'X11', description: 'X11 rgb.txt names with numbered shades', colors: X11_COLORS },
+  { id: 'xkcd', label: 'XKCD', description: 'Everyday names from the XKCD color survey', colors: XKCD_COLORS },
+  { id: 'iscc-nbs', label: 'ISCC-NBS', description: 'Descriptive categories such as "moderate reddish brown"', colors: ISCC_NBS_COLORS },
+];
+
+export interface ColorNameMatch {
+  name: string;
+  hex: string;
+  dictionary: ColorNameDictionary;
+  deltaE: number;
+}
+
+interface NamedLab {
+  name: string;
+  hex: string;
+  lab: LABColor;
+}
+
+// Names are matched in D65 LAB whatever the conversion settings, so the same pixel always gets the same word
+const labCache = new Map<ColorNameDictionary, NamedLab[]>();
+
+function dictionaryLab(id: ColorNameDictionary): NamedLab[] {
+  let entries = labCache.get(id);
+  if (!entries) {
+    const colors = COLOR_NAME_DICTIONARIES.find(dictionary => dictionary.id === id)?.colors ?? {};
+    entries = Object.entries(colors).flatMap(([name, hex]) => {
+      const css = parseCssColor(hex);
+      return css ? [{ name, hex, lab: rgbToLab(css.rgb) }] : [];
+    });
+    labCache.set(id, entries);
+  }
+  return entries;
+}
+
+// Closest name across the given dictionaries, or null when none are selected
+export function nearestColorName(rgb: RGBColor, dictionaries: ColorNameDictionary[]): ColorNameMatch | null {
+  const lab = rgbToLab(rgb);
+  let best: ColorNameMatch | null = null;
+
+  for (const dictionary of dictionaries) {
+    for (const entry of dictionaryLab(dictionary)) {
+      const deltaE = deltaE2000(lab, entry.lab);
+      if (!best || deltaE < best.deltaE) {
+        best = { name: entry.name, hex: entry.hex, dictionary, deltaE };
+      }
+    }
+  }
+  return best;
+}
+
+// Tooltip line, e.g. '≈ moderate reddish brown (ISCC-NBS, ΔE 2.3)'
+export function formatColorName(match: ColorNameMatch): string {
+  const label = COLOR_NAME_DICTIONARIES.find(dictionary => dictionary.id === match.dictionary)?.label ?? match.dictionary;
+  return `${match.deltaE < 0.5 ? '' : '≈ '}${match.name} (${label}, ΔE ${match.deltaE.toFixed(1)})`;
+}
@@ -0,0 +1,187 @@
+// 3D point cloud of colors inside a model's color solid, projected in software onto a 2D canvas
+
+import { ConversionSettings, RGBColor, Vector3, defaultConversionSettings } from './colorConversions';
+import { ColorChannel, ColorModel, ColorSolid, getChannels, getColorSpace } from './colorSpaces';
+
+// Model-independent solid coordinates: x and z across, y up, each within -1..1
+export interface SolidLayout {
+  solid: ColorSolid;
+  // Three values per color
+  positions: Float32Array;
+  // Channel names placed next to the outline
+  labels: { position: Vector3; text: string }[];
+}
+
+// Camera orientation in radians: yaw turns around the vertical axis, pitch tilts it toward the viewer
+export interface SolidView {
+  yaw: number;
+  pitch: number;
+}
+
+// Images are sampled down to about this many points, so the cloud can be sorted every frame
+export const MAX_CLOUD_POINTS = 5000;
+
+// Distance of the camera from the center, in solid units
+const CAMERA_DISTANCE = 4.5;
+
+// Every 16th code value of the sRGB cube, shown when there is no image
+export function rgbGridColors(step = 16): RGBColor[] {
+  const levels = Array.from({ length: Math.floor(255 / step) + 1 }, (_, index) => Math.min(255, index * step));
+  if (levels[levels.length - 1] !== 255) levels.push(255);
+  return levels.flatMap(r => levels.flatMap(g => levels.map(b => ({ r, g, b }))));
+}
+
+// Up to `maxPoints` pixels of an image, on a regular stride
+export function sampleImageColors(image: ImageData, maxPoints = MAX_CLOUD_POINTS): RGBColor[] {
+  const pixelCount = image.width * image.height;
+  const stride = Math.max(1, Math.ceil(pixelCount / maxPoints));
+  const colors: RGBColor[] = [];
+  for (let pixel = 0; pixel < pixelCount; pixel += stride) {
+    const i = pixel * 4;
+    colors.push({ r: image.data[i], g: image.data[i + 1], b: image.data[i + 2] });
+  }
+  return colors;
+}
+
+// Channel range: the declared bounds, or the range of the values where one is open
+function channelRange(channel: ColorChannel, values: number[]): [number, number] {
+  let min = channel.min ?? Infinity;
+  let max = channel.max ?? -Infinity;
+  for (const value of values) {
+    if (!Number.isFinite(value)) continue;
+    if (channel.min === undefined) min = Math.min(min, value);
+    if (channel.max === undefined) max = Math.max(max, value);
+  }
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [0, 1];
+  return max > min ? [min, max] : [min, min + 1];
+}
+
+// Where each color sits in the solid of `model`
+export function layoutColorSolid(
+  colors: RGBColor[],
+  model: ColorModel,
+  settings: ConversionSettings = defaultConversionSettings
+): SolidLayout | null {
+  const space = getColorSpace(model);
+  if (!space) return null;
+  const channels = getChannels(space, settings);
+  if (channels.length < 3) return null;
+
+  const solid: ColorSolid = space.solid ?? { shape: 'box', axes: [channels[0].key, channels[1].key, channels[2].key] };
+  const fromRgb = space.approximateFromRgb ?? space.fromRgb;
+  const values = colors.map(color => fromRgb(color, settings));
+  const channelOf = (key: string) => channels.find(channel => channel.key === key) ?? channels[0];
+
+  // Channel value mapped to 0-1 of its range; NaN (e.g. CAM16 of an imaginary color) becomes 0
+  const normalizer = (key: string) => {
+    const [min, max] = channelRange(channelOf(key), values.map(value => value[key]));
+    return (value: number) => (Number.isFinite(value) ? Math.max(0, Math.min(1, (value - min) / (max - min))) : 0);
+  };
+  const labelOf = (key: string) => channelOf(key).label;
+  const positions = new Float32Array(colors.length * 3);
+
+  if (solid.shape === 'box') {
+    const [nx, ny, nz] = solid.axes.map(normalizer);
+    values.forEach((value, index) => {
+      positions[index * 3] = nx(value[solid.axes[0]]) * 2 - 1;
+      positions[index * 3 + 1] = ny(value[solid.axes[1]]) * 2 - 1;
+      positions[index * 3 + 2] = nz(value[solid.axes[2]]) * 2 - 1;
+    });
+    return {
+      solid,
+      positions,
+      labels: [
+        { position: [1.25, -1, -1], text: labelOf(solid.axes[0]) },
+        { position: [-1, 1.2, -1], text: labelOf(solid.axes[1]) },
+        { position: [-1, -1, 1.25], text: labelOf(solid.axes[2]) }
+      ]
+    };
+  }
+
+  const hue = normalizer(solid.hue);
+  const radius = normalizer(solid.radius);
+  const height = normalizer(solid.height);
+  values.forEach((value, index) => {
+    const h = height(value[solid.height]);
+    let r = radius(value[solid.radius]);
+    if (solid.shape === 'cone') r *= h;
+    if (solid.shape === 'bicone') r *= 1 - Math.abs(2 * h - 1);
+    const angle = hue(value[solid.hue]) * 2 * Math.PI;
+    positions[index * 3] = r * Math.cos(angle);
+    positions[index * 3 + 1] = h * 2 - 1;
+    positions[index * 3 + 2] = -r * Math.sin(angle);
+  });
+
+  // The radius label sits on the widest ring
+  const ringY = solid.shape === 'cone' ? 1 : solid.shape === 'bicone' ? 0 : -1;
+  return {
+    solid,
+    positions,
+    labels: [
+      { position: [0, 1.25, 0], text: labelOf(solid.height) },
+      { position: [1.3, ringY, 0], text: labelOf(solid.radius) },
+      { position: [0, ringY, -1.3], text: `${labelOf(solid.hue)} ↻` }
+    ]
+  };
+}
+
+const circle = (y: number, radius = 1, segments = 48): Vector3[] =>
+  Array.from({ length: segments + 1 }, (_, index) => {
+    const angle = index / segments * 2 * Math.PI;
+    return [radius * Math.cos(angle), y, radius * Math.sin(angle)];
+  });
+
+// Wireframe of the solid as polylines
+export function solidOutline(solid: ColorSolid): Vector3[][] {
+  switch (solid.shape) {
+    case 'box': {
+      const corners: Vector3[] = [[-1, -1, -1], [1, -1, -1], [1, -1, 1], [-1, -1, 1]];
+      const top = corners.map(([x, , z]): Vector3 => [x, 1, z]);
+      return [
+        [...corners, corners[0]],
+        [...top, top[0]],
+        ...corners.map((corner, index) => [corner, top[index]])
+      ];
+    }
+    case 'cylinder':
+      return [circle(-1), circle(1), ...[0, 1, 2, 3].map(quarter => {
+        const angle = quarter * Math.PI / 2;
+        return [[Math.cos(angle), -1, Math.sin(angle)], [Math.cos(angle), 1, Math.sin(angle)]] as Vector3[];
+      }), [[0, -1, 0], [0, 1, 0]]];
+    case 'cone':
+      return [circle(1), ...[0, 1, 2, 3].map(quarter => {
+        const angle = quarter * Math.PI / 2;
+        return [[0, -1, 0], [Math.cos(angle), 1, Math.sin(angle)]] as Vector3[];
+      }), [[0, -1, 0], [0, 1, 0]]];
+    case 'bicone':
+      return [circle(0), ...[0, 1, 2, 3].map(quarter => {
+        const angle = quarter * Math.PI / 2;
+        return [[0, -1, 0], [Math.cos(angle), 0, Math.sin(angle)], [0, 1, 0]] as Vector3[];
+      }), [[0, -1, 0], [0, 1, 0]]];
+  }
+}
+
+// Screen position of a solid point for a square viewport of `size` pixels, with its depth
+// (larger is nearer) for painter's ordering and the perspective scale for point sizes
+export function projectPoint(point: Vector3, view: SolidView, size: number): { x: number; y: number; depth: number; scale: number } {
+  const [x, y, z] = point;
+  const cosYaw = Math.cos(view.yaw);
+  const sinYaw = Math.sin(view.yaw);
+  const cosPitch = Math.cos(view.pitch);
+  const sinPitch = Math.sin(view.pitch);
+
+  const x1 = x * cosYaw - z * sinYaw;
+  const z1 = x * sinYaw + z * cosYaw;
+  const y2 = y * cosPitch - z1 * sinPitch;
+  const z2 = y * sinPitch + z1 * cosPitch;
+
+  const scale = CAMERA_DISTANCE / (CAMERA_DISTANCE - z2);
+  const unit = size * 0.28;
+  return { x: size / 2 + x1 * scale * unit, y: size / 2 - y2 * scale * unit, depth: z2, scale };
+}
+
+// Smoothstep easing for the morph between two layouts
+export function morphProgress(elapsed: number, duration: number): number {
+  const t = Math.max(0, Math.min(1, elapsed / duration));
+  return t * t * (3 - 2 * t);
+}
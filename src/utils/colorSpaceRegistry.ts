@@ -0,0 +1,114 @@
+// Color space registry: each model declares its channels, converters and formatting once,
+// and the selector, sliders, readouts and image transforms are all rendered from it
+
+import { ConversionSettings, RGBColor, defaultConversionSettings } from './colorConversions';
+
+// Id of a registered color space, e.g. 'RGB' or 'OKLCH'
+export type ColorModel = string;
+
+// Theme color tokens used for channel labels and header cards
+export type ThemeColor =
+  | 'primary' | 'primary-glow' | 'secondary' | 'accent'
+  | 'destructive' | 'foreground' | 'muted-foreground';
+
+export type ChannelValues = Record<string, number>;
+
+export interface ColorChannel<K extends string = string> {
+  key: K;
+  label: string;
+  // Appended to slider values, e.g. '°' or '%'
+  unit?: string;
+  swatch: ThemeColor;
+  // Valid range of the channel; adjusted values are clamped to it, or wrapped for hues
+  min?: number;
+  max?: number;
+  wrap?: boolean;
+  // Offset range and step of the adjustment slider
+  adjustment: { min: number; max: number; step: number };
+}
+
+// Shape of a model's color solid in the 3D point cloud. A box spans three channels with the second
+// pointing up; the hue-based shapes put the radius channel across and the height channel up, with a
+// cone narrowing to a point at the bottom and a bicone at both ends.
+export type ColorSolid<K extends string = string> =
+  | { shape: 'box'; axes: [K, K, K] }
+  | { shape: 'cylinder' | 'cone' | 'bicone'; hue: K; radius: K; height: K };
+
+export interface ColorSpaceDefinition<T extends object = ChannelValues> {
+  id: ColorModel;
+  label: string;
+  description: string;
+  // Channels may depend on settings (e.g. the YCbCr code-value range)
+  channels: ColorChannel<keyof T & string>[] | ((settings: ConversionSettings) => ColorChannel<keyof T & string>[]);
+  fromRgb: (rgb: RGBColor, settings: ConversionSettings) => T;
+  // Display sRGB; `clip = false` keeps out-of-gamut colors outside 0-255
+  toRgb: (values: T, settings: ConversionSettings, clip?: boolean) => RGBColor;
+  // Faster, approximate fromRgb used for whole-image passes
+  approximateFromRgb?: (rgb: RGBColor, settings: ConversionSettings) => T;
+  // Hover readout, with `precision` extra decimals for display
+  format: (rgb: RGBColor, precision: number, settings: ConversionSettings) => string;
+  // False-color view of the transformed image; the adjusted pixel is shown when omitted
+  visualize?: (rgb: RGBColor, settings: ConversionSettings) => RGBColor;
+  // Shown above the sliders
+  note?: (settings: ConversionSettings) => string;
+  // Typed notation that can be turned back into a swatch
+  notation?: {
+    parse: (text: string) => T | null;
+    example: string;
+    hint: string;
+  };
+  // Card in the educational header
+  education?: { summary: string; color: ThemeColor };
+  // Point cloud geometry; a box over the first three channels when omitted
+  solid?: ColorSolid<keyof T & string>;
+}
+
+// Per-space channel offsets, keyed by color space id and then channel key
+export type ColorAdjustments = Record<ColorModel, ChannelValues>;
+
+const registry = new Map<ColorModel, ColorSpaceDefinition>();
+
+// Type-check a definition against its channel object, then erase the type for the registry
+export function defineColorSpace<T extends object>(definition: ColorSpaceDefinition<T>): ColorSpaceDefinition {
+  return definition as unknown as ColorSpaceDefinition;
+}
+
+// Add a color space. Register in-house spaces before the app renders (e.g. in main.tsx).
+export function registerColorSpace(definition: ColorSpaceDefinition): void {
+  if (registry.has(definition.id)) {
+    throw new Error(`Color space "${definition.id}" is already registered`);
+  }
+  registry.set(definition.id, definition);
+}
+
+export function getColorSpace(id: ColorModel): ColorSpaceDefinition | undefined {
+  return registry.get(id);
+}
+
+// All registered spaces, in registration order
+export function getColorSpaces(): ColorSpaceDefinition[] {
+  return Array.from(registry.values());
+}
+
+export function getChannels(space: ColorSpaceDefinition, settings: ConversionSettings = defaultConversionSettings): ColorChannel[] {
+  return typeof space.channels === 'function' ? space.channels(settings) : space.channels;
+}
+
+// Zero offset for every channel of every registered space
+export function createDefaultAdjustments(): ColorAdjustments {
+  const adjustments: ColorAdjustments = {};
+  for (const space of registry.values()) {
+    adjustments[space.id] = Object.fromEntries(getChannels(space).map(channel => [channel.key, 0]));
+  }
+  return adjustments;
+}
+
+// Apply an offset to a channel, keeping the result inside the channel's range
+export function adjustChannel(channel: ColorChannel, value: number, offset: number): number {
+  const adjusted = value + offset;
+  if (channel.wrap && channel.min !== undefined && channel.max !== undefined) {
+    const span = channel.max - channel.min;
+    return ((adjusted - channel.min) % span + span) % span + channel.min;
+  }
+  return Math.max(channel.min ?? -Infinity, Math.min(channel.max ?? Infinity, adjusted));
+}
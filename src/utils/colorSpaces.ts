@@ -0,0 +1,741 @@
+// Built-in color spaces, plus the readout and image transform that work from the registry
+
+import {
+  ConversionSettings,
+  RGBColor,
+  defaultConversionSettings,
+  rgbToHsv, hsvToRgb,
+  rgbToHsl, hslToRgb,
+  rgbToHwb, hwbToRgb,
+  rgbToHsi, hsiToRgb,
+  rgbToCmyk, cmykToRgb,
+  rgbToWorkingSpace, workingSpaceToRgb,
+  rgbToXyz, xyzToRgb,
+  rgbToXyy, xyyToRgb,
+  rgbToLab, labToRgb,
+  rgbToLuv, luvToRgb, rgbToUvPrime,
+  rgbToLchuv, lchuvToRgb,
+  rgbToHsluv, hsluvToRgb,
+  rgbToOklab, oklabToRgb,
+  rgbToOklch, oklchToRgb,
+  rgbToCam16, cam16ToRgb,
+  rgbToCam16Ucs, cam16UcsToRgb,
+  rgbToMunsell, rgbToMunsellApprox, munsellToRgb, formatMunsell, parseMunsell,
+  rgbToPq, pqToRgb,
+  rgbToHlg, hlgToRgb, rgbToHlgNits,
+  rgbToIctcp, ictcpToRgb,
+  rgbToJzazbz, jzazbzToRgb,
+  rgbToNits, toneMapToSdr,
+  rgbToYuv, yuvToRgb,
+  rgbToYcbcr, ycbcrToRgb, describeYcbcrConvention,
+  isInGamut, mapToGamut
+} from './colorConversions';
+import {
+  ColorAdjustments,
+  ColorChannel,
+  ColorModel,
+  ThemeColor,
+  adjustChannel,
+  defineColorSpace,
+  getChannels,
+  getColorSpace,
+  registerColorSpace
+} from './colorSpaceRegistry';
+
+export * from './colorSpaceRegistry';
+
+// Format a channel without ever printing "-0"
+export function formatChannel(value: number, precision: number): string {
+  const fixed = value.toFixed(precision);
+  return Number(fixed) === 0 ? (0).toFixed(precision) : fixed;
+}
+
+// Formatter for `precision` decimals, plus `extra` for channels with a small range
+function formatter(precision: number) {
+  return (value: number, extra = 0) => formatChannel(value, precision + extra);
+}
+
+// Common channel shapes
+function hueChannel(label = 'Hue', swatch: ThemeColor = 'accent'): ColorChannel<'h'> {
+  return { key: 'h', label, unit: '°', swatch, min: 0, max: 360, wrap: true, adjustment: { min: -180, max: 180, step: 1 } };
+}
+
+function percentChannel<K extends string>(key: K, label: string, swatch: ThemeColor): ColorChannel<K> {
+  return { key, label, unit: '%', swatch, min: 0, max: 100, adjustment: { min: -100, max: 100, step: 1 } };
+}
+
+function toneMapped(rgb: RGBColor, settings: ConversionSettings): RGBColor {
+  // HDR models: show the image as an SDR display would after tone mapping
+  return toneMapToSdr(rgb, settings);
+}
+
+registerColorSpace(defineColorSpace({
+  id: 'RGB',
+  label: 'RGB',
+  description: 'Red, Green, Blue - Additive color model',
+  channels: [
+    { key: 'r', label: 'Red', swatch: 'destructive', min: 0, max: 255, adjustment: { min: -255, max: 255, step: 1 } },
+    { key: 'g', label: 'Green', swatch: 'secondary', min: 0, max: 255, adjustment: { min: -255, max: 255, step: 1 } },
+    { key: 'b', label: 'Blue', swatch: 'primary', min: 0, max: 255, adjustment: { min: -255, max: 255, step: 1 } }
+  ],
+  // Channels are adjusted in the configured RGB working space
+  fromRgb: rgbToWorkingSpace,
+  toRgb: workingSpaceToRgb,
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const working = rgbToWorkingSpace(rgb, settings);
+    return `RGB(${f(working.r)}, ${f(working.g)}, ${f(working.b)}) ${settings.rgbSpace.name}`;
+  },
+  note: (settings) => `${settings.rgbSpace.name} channel values`,
+  education: {
+    summary: 'Red, Green, Blue additive color model used in digital displays. Perfect for screens and digital art.',
+    color: 'primary'
+  },
+  solid: { shape: 'box', axes: ['r', 'g', 'b'] }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'HSV',
+  label: 'HSV',
+  description: 'Hue, Saturation, Value - Intuitive color model',
+  channels: [
+    hueChannel(),
+    percentChannel('s', 'Saturation', 'primary'),
+    percentChannel('v', 'Value', 'secondary')
+  ],
+  fromRgb: rgbToHsv,
+  toRgb: hsvToRgb,
+  format: (rgb, precision) => {
+    const f = formatter(precision);
+    const hsv = rgbToHsv(rgb);
+    return `HSV(${f(hsv.h)}°, ${f(hsv.s)}%, ${f(hsv.v)}%)`;
+  },
+  visualize: (rgb) => {
+    const hsv = rgbToHsv(rgb);
+    // Enhance saturation and value for visual effect
+    return {
+      r: Math.min(255, rgb.r * (1 + hsv.s / 200)),
+      g: Math.min(255, rgb.g * (1 + hsv.s / 200)),
+      b: Math.min(255, rgb.b * (1 + hsv.v / 200))
+    };
+  },
+  education: {
+    summary: "Hue, Saturation, Value model that's intuitive for artists and designers to work with colors.",
+    color: 'secondary'
+  },
+  solid: { shape: 'cone', hue: 'h', radius: 's', height: 'v' }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'HSL',
+  label: 'HSL',
+  description: 'Hue, Saturation, Lightness - CSS color model',
+  channels: [
+    hueChannel(),
+    percentChannel('s', 'Saturation', 'primary'),
+    percentChannel('l', 'Lightness', 'foreground')
+  ],
+  fromRgb: rgbToHsl,
+  toRgb: hslToRgb,
+  format: (rgb, precision) => {
+    const f = formatter(precision);
+    const hsl = rgbToHsl(rgb);
+    return `HSL(${f(hsl.h)}°, ${f(hsl.s)}%, ${f(hsl.l)}%)`;
+  },
+  visualize: (rgb) => {
+    const hsl = rgbToHsl(rgb);
+    // Show lightness, saturation and hue as separate channels
+    return { r: hsl.l * 2.55, g: hsl.s * 2.55, b: hsl.h / 360 * 255 };
+  },
+  note: () => 'Pure hues sit at 50% lightness in HSL but at 100% value in HSV: lightness runs from black through the hue to white.',
+  solid: { shape: 'bicone', hue: 'h', radius: 's', height: 'l' }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'HWB',
+  label: 'HWB',
+  description: 'Hue, Whiteness, Blackness - Paint-mixing color model',
+  channels: [
+    hueChannel(),
+    percentChannel('w', 'Whiteness', 'foreground'),
+    percentChannel('b', 'Blackness', 'muted-foreground')
+  ],
+  fromRgb: rgbToHwb,
+  toRgb: hwbToRgb,
+  format: (rgb, precision) => {
+    const f = formatter(precision);
+    const hwb = rgbToHwb(rgb);
+    return `HWB(${f(hwb.h)}°, ${f(hwb.w)}%, ${f(hwb.b)}%)`;
+  },
+  visualize: (rgb) => {
+    const hwb = rgbToHwb(rgb);
+    // Whiteness in red, inverted blackness in green, hue in blue
+    return { r: hwb.w * 2.55, g: 255 - hwb.b * 2.55, b: hwb.h / 360 * 255 };
+  },
+  note: () => 'Hue mixed with white and black paint: 0% whiteness and 0% blackness is the pure hue.'
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'HSI',
+  label: 'HSI',
+  description: 'Hue, Saturation, Intensity - Image processing color model',
+  channels: [
+    hueChannel(),
+    percentChannel('s', 'Saturation', 'primary'),
+    percentChannel('i', 'Intensity', 'foreground')
+  ],
+  fromRgb: rgbToHsi,
+  toRgb: (hsi, _settings, clip) => hsiToRgb(hsi, clip),
+  format: (rgb, precision) => {
+    const f = formatter(precision);
+    const hsi = rgbToHsi(rgb);
+    return `HSI(${f(hsi.h)}°, ${f(hsi.s)}%, ${f(hsi.i)}%)`;
+  },
+  visualize: (rgb) => {
+    const hsi = rgbToHsi(rgb);
+    // Show intensity, saturation and hue as separate channels
+    return { r: hsi.i * 2.55, g: hsi.s * 2.55, b: hsi.h / 360 * 255 };
+  },
+  note: () => 'Intensity is the plain average of R, G and B, so pure hues sit at 33% intensity.',
+  solid: { shape: 'cylinder', hue: 'h', radius: 's', height: 'i' }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'CMYK',
+  label: 'CMYK',
+  description: 'Cyan, Magenta, Yellow, Key - Print color model',
+  channels: [
+    percentChannel('c', 'Cyan', 'secondary'),
+    percentChannel('m', 'Magenta', 'accent'),
+    percentChannel('y', 'Yellow', 'destructive'),
+    percentChannel('k', 'Black', 'foreground')
+  ],
+  fromRgb: rgbToCmyk,
+  toRgb: cmykToRgb,
+  format: (rgb, precision) => {
+    const f = formatter(precision);
+    const cmyk = rgbToCmyk(rgb);
+    return `CMYK(${f(cmyk.c)}%, ${f(cmyk.m)}%, ${f(cmyk.y)}%, ${f(cmyk.k)}%)`;
+  },
+  visualize: (rgb) => {
+    const cmyk = rgbToCmyk(rgb);
+    // Simulate CMYK color space
+    return {
+      r: Math.max(0, 255 - (cmyk.c * 2.55 + cmyk.k * 2.55)),
+      g: Math.max(0, 255 - (cmyk.m * 2.55 + cmyk.k * 2.55)),
+      b: Math.max(0, 255 - (cmyk.y * 2.55 + cmyk.k * 2.55))
+    };
+  },
+  education: {
+    summary: 'Cyan, Magenta, Yellow, Key (Black) subtractive model used in printing and publishing.',
+    color: 'accent'
+  }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'XYZ',
+  label: 'XYZ',
+  description: 'CIE 1931 tristimulus values - Device-independent reference',
+  channels: [
+    { key: 'x', label: 'X', swatch: 'destructive', min: 0, adjustment: { min: -100, max: 100, step: 1 } },
+    { key: 'y', label: 'Y (Luminance)', swatch: 'foreground', min: 0, max: 100, adjustment: { min: -100, max: 100, step: 1 } },
+    { key: 'z', label: 'Z', swatch: 'primary', min: 0, adjustment: { min: -100, max: 100, step: 1 } }
+  ],
+  fromRgb: rgbToXyz,
+  toRgb: xyzToRgb,
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const xyz = rgbToXyz(rgb, settings);
+    return `XYZ(${f(xyz.x, 2)}, ${f(xyz.y, 2)}, ${f(xyz.z, 2)}) ${settings.whitePoint}`;
+  },
+  visualize: (rgb, settings) => {
+    const xyz = rgbToXyz(rgb, settings);
+    // Show the tristimulus values directly as channel intensities
+    return { r: xyz.x * 2.55, g: xyz.y * 2.55, b: xyz.z * 2.55 };
+  },
+  solid: { shape: 'box', axes: ['x', 'y', 'z'] }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'XYY',
+  label: 'xyY',
+  description: 'Chromaticity x, y plus luminance Y',
+  channels: [
+    { key: 'x', label: 'x (Chromaticity)', swatch: 'destructive', min: 0, max: 1, adjustment: { min: -0.2, max: 0.2, step: 0.005 } },
+    { key: 'y', label: 'y (Chromaticity)', swatch: 'secondary', min: 0.001, max: 1, adjustment: { min: -0.2, max: 0.2, step: 0.005 } },
+    { key: 'Y', label: 'Y (Luminance)', swatch: 'foreground', min: 0, max: 100, adjustment: { min: -100, max: 100, step: 1 } }
+  ],
+  fromRgb: rgbToXyy,
+  toRgb: xyyToRgb,
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const xyy = rgbToXyy(rgb, settings);
+    return `xyY(${f(xyy.x, 4)}, ${f(xyy.y, 4)}, ${f(xyy.Y, 2)}) ${settings.whitePoint}`;
+  },
+  visualize: (rgb, settings) => {
+    const xyy = rgbToXyy(rgb, settings);
+    // Chromaticity drives red/green, luminance drives blue
+    return { r: xyy.x / 0.8 * 255, g: xyy.y / 0.9 * 255, b: xyy.Y * 2.55 };
+  },
+  solid: { shape: 'box', axes: ['x', 'Y', 'y'] }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'LAB',
+  label: 'LAB',
+  description: 'Lightness, A*, B* - Perceptual color model',
+  channels: [
+    { key: 'l', label: 'Lightness', swatch: 'foreground', min: 0, max: 100, adjustment: { min: -100, max: 100, step: 1 } },
+    { key: 'a', label: 'A (Green-Red)', swatch: 'secondary', min: -128, max: 127, adjustment: { min: -128, max: 128, step: 1 } },
+    { key: 'b', label: 'B (Blue-Yellow)', swatch: 'primary', min: -128, max: 127, adjustment: { min: -128, max: 128, step: 1 } }
+  ],
+  fromRgb: rgbToLab,
+  toRgb: labToRgb,
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const lab = rgbToLab(rgb, settings);
+    return `LAB(${f(lab.l)}, ${f(lab.a)}, ${f(lab.b)}) ${settings.whitePoint}`;
+  },
+  visualize: (rgb, settings) => {
+    const lab = rgbToLab(rgb, settings);
+    // Enhance lab color space visualization
+    return { r: lab.l * 2.55, g: lab.a + 128, b: lab.b + 128 };
+  },
+  education: {
+    summary: 'Lightness, A*, B* perceptual color space designed to approximate human vision.',
+    color: 'primary-glow'
+  },
+  solid: { shape: 'box', axes: ['a', 'l', 'b'] }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'LUV',
+  label: 'CIELUV',
+  description: "Lightness, u*, v* - Perceptual model with u'v' chromaticity",
+  channels: [
+    { key: 'l', label: 'Lightness', swatch: 'foreground', min: 0, max: 100, adjustment: { min: -100, max: 100, step: 1 } },
+    { key: 'u', label: 'U (Green-Red)', swatch: 'secondary', min: -200, max: 200, adjustment: { min: -200, max: 200, step: 1 } },
+    { key: 'v', label: 'V (Blue-Yellow)', swatch: 'primary', min: -200, max: 200, adjustment: { min: -200, max: 200, step: 1 } }
+  ],
+  fromRgb: rgbToLuv,
+  toRgb: luvToRgb,
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const luv = rgbToLuv(rgb, settings);
+    const uv = rgbToUvPrime(rgb, settings);
+    return `LUV(${f(luv.l)}, ${f(luv.u)}, ${f(luv.v)}) u'v'(${f(uv.u, 4)}, ${f(uv.v, 4)}) ${settings.whitePoint}`;
+  },
+  visualize: (rgb, settings) => {
+    const luv = rgbToLuv(rgb, settings);
+    // Same layout as LAB: lightness, then the u/v axes around mid-grey
+    return { r: luv.l * 2.55, g: luv.u + 128, b: luv.v + 128 };
+  },
+  solid: { shape: 'box', axes: ['u', 'l', 'v'] }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'LCHUV',
+  label: 'LCh(uv)',
+  description: 'Lightness, Chroma, Hue - Polar form of CIELUV',
+  channels: [
+    { key: 'l', label: 'Lightness', swatch: 'foreground', min: 0, max: 100, adjustment: { min: -100, max: 100, step: 1 } },
+    { key: 'c', label: 'Chroma', swatch: 'primary', min: 0, max: 200, adjustment: { min: -180, max: 180, step: 1 } },
+    hueChannel()
+  ],
+  fromRgb: rgbToLchuv,
+  toRgb: lchuvToRgb,
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const lch = rgbToLchuv(rgb, settings);
+    return `LCHuv(${f(lch.l)}, ${f(lch.c)}, ${f(lch.h)}°) ${settings.whitePoint}`;
+  },
+  visualize: (rgb, settings) => {
+    const lch = rgbToLchuv(rgb, settings);
+    // Show lightness, chroma and hue as separate channels
+    return { r: lch.l * 2.55, g: lch.c / 180 * 255, b: lch.h / 360 * 255 };
+  },
+  solid: { shape: 'cylinder', hue: 'h', radius: 'c', height: 'l' }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'HSLUV',
+  label: 'HSLuv',
+  description: 'Hue, Saturation, Lightness - Perceptually even HSL',
+  channels: [
+    hueChannel(),
+    percentChannel('s', 'Saturation', 'primary'),
+    percentChannel('l', 'Lightness', 'foreground')
+  ],
+  fromRgb: rgbToHsluv,
+  toRgb: (hsluv, _settings, clip) => hsluvToRgb(hsluv, clip),
+  format: (rgb, precision) => {
+    const f = formatter(precision);
+    const hsluv = rgbToHsluv(rgb);
+    return `HSLuv(${f(hsluv.h)}°, ${f(hsluv.s)}%, ${f(hsluv.l)}%)`;
+  },
+  visualize: (rgb) => {
+    const hsluv = rgbToHsluv(rgb);
+    // Show lightness, saturation and hue as separate channels
+    return { r: hsluv.l * 2.55, g: hsluv.s * 2.55, b: hsluv.h / 360 * 255 };
+  },
+  solid: { shape: 'cylinder', hue: 'h', radius: 's', height: 'l' }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'OKLAB',
+  label: 'Oklab',
+  description: 'Lightness, a, b - Perceptually uniform CSS color model',
+  channels: [
+    { key: 'l', label: 'Lightness', swatch: 'foreground', min: 0, max: 1, adjustment: { min: -1, max: 1, step: 0.01 } },
+    { key: 'a', label: 'a (Green-Red)', swatch: 'secondary', min: -0.4, max: 0.4, adjustment: { min: -0.4, max: 0.4, step: 0.005 } },
+    { key: 'b', label: 'b (Blue-Yellow)', swatch: 'primary', min: -0.4, max: 0.4, adjustment: { min: -0.4, max: 0.4, step: 0.005 } }
+  ],
+  fromRgb: rgbToOklab,
+  toRgb: (oklab, _settings, clip) => oklabToRgb(oklab, clip),
+  format: (rgb, precision) => {
+    // Oklab channels live in 0-1 / +-0.4, so they carry three extra decimals
+    const f = formatter(precision);
+    const oklab = rgbToOklab(rgb);
+    return `OKLAB(${f(oklab.l * 100)}%, ${f(oklab.a, 3)}, ${f(oklab.b, 3)})`;
+  },
+  visualize: (rgb) => {
+    const oklab = rgbToOklab(rgb);
+    // Map L to brightness and the a/b opponent axes around mid-grey
+    return { r: oklab.l * 255, g: (oklab.a / 0.8 + 0.5) * 255, b: (oklab.b / 0.8 + 0.5) * 255 };
+  },
+  solid: { shape: 'box', axes: ['a', 'l', 'b'] }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'OKLCH',
+  label: 'Oklch',
+  description: 'Lightness, Chroma, Hue - Polar form of Oklab',
+  channels: [
+    { key: 'l', label: 'Lightness', swatch: 'foreground', min: 0, max: 1, adjustment: { min: -1, max: 1, step: 0.01 } },
+    { key: 'c', label: 'Chroma', swatch: 'primary', min: 0, max: 0.4, adjustment: { min: -0.4, max: 0.4, step: 0.005 } },
+    hueChannel()
+  ],
+  fromRgb: rgbToOklch,
+  toRgb: (oklch, _settings, clip) => oklchToRgb(oklch, clip),
+  format: (rgb, precision) => {
+    const f = formatter(precision);
+    const oklch = rgbToOklch(rgb);
+    return `OKLCH(${f(oklch.l * 100)}%, ${f(oklch.c, 3)}, ${f(oklch.h)}°)`;
+  },
+  visualize: (rgb) => {
+    const oklch = rgbToOklch(rgb);
+    // Show lightness, chroma and hue as separate channels
+    return { r: oklch.l * 255, g: oklch.c / 0.4 * 255, b: oklch.h / 360 * 255 };
+  },
+  solid: { shape: 'cylinder', hue: 'h', radius: 'c', height: 'l' }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'CAM16',
+  label: 'CAM16',
+  description: 'Lightness, Chroma, Hue, Colorfulness, Brightness - Appearance model',
+  channels: [
+    { key: 'j', label: 'Lightness (J)', swatch: 'foreground', min: 0, max: 100, adjustment: { min: -100, max: 100, step: 1 } },
+    { key: 'c', label: 'Chroma (C)', swatch: 'primary', min: 0, max: 120, adjustment: { min: -100, max: 100, step: 1 } },
+    hueChannel('Hue (h)')
+  ],
+  fromRgb: rgbToCam16,
+  toRgb: cam16ToRgb,
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const cam = rgbToCam16(rgb, settings);
+    return `${settings.viewingConditions.model}(J ${f(cam.j)}, C ${f(cam.c)}, h ${f(cam.h)}°, M ${f(cam.m)}, Q ${f(cam.q)})`;
+  },
+  visualize: (rgb, settings) => {
+    const cam = rgbToCam16(rgb, settings);
+    // Show lightness, chroma and hue as separate channels
+    return { r: cam.j * 2.55, g: cam.c / 100 * 255, b: cam.h / 360 * 255 };
+  },
+  note: () => 'Appearance under the viewing conditions set in Conversion Settings.',
+  solid: { shape: 'cylinder', hue: 'h', radius: 'c', height: 'j' }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'CAM16UCS',
+  label: 'CAM16-UCS',
+  description: "J', a', b' - Uniform space built on CAM16",
+  channels: [
+    { key: 'j', label: "Lightness (J')", swatch: 'foreground', min: 0, max: 100, adjustment: { min: -100, max: 100, step: 1 } },
+    { key: 'a', label: "a' (Green-Red)", swatch: 'secondary', min: -50, max: 50, adjustment: { min: -50, max: 50, step: 1 } },
+    { key: 'b', label: "b' (Blue-Yellow)", swatch: 'primary', min: -50, max: 50, adjustment: { min: -50, max: 50, step: 1 } }
+  ],
+  fromRgb: rgbToCam16Ucs,
+  toRgb: cam16UcsToRgb,
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const ucs = rgbToCam16Ucs(rgb, settings);
+    return `${settings.viewingConditions.model}-UCS(${f(ucs.j)}, ${f(ucs.a)}, ${f(ucs.b)})`;
+  },
+  visualize: (rgb, settings) => {
+    const ucs = rgbToCam16Ucs(rgb, settings);
+    // Same layout as LAB: lightness, then the a'/b' axes around mid-grey
+    return { r: ucs.j * 2.55, g: (ucs.a / 100 + 0.5) * 255, b: (ucs.b / 100 + 0.5) * 255 };
+  },
+  solid: { shape: 'box', axes: ['a', 'j', 'b'] }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'MUNSELL',
+  label: 'Munsell',
+  description: 'Hue, Value, Chroma - Renotation color order system',
+  channels: [
+    { key: 'h', label: 'Hue (H)', swatch: 'primary', min: 0, max: 100, wrap: true, adjustment: { min: -50, max: 50, step: 0.5 } },
+    { key: 'v', label: 'Value (V)', swatch: 'foreground', min: 0, max: 10, adjustment: { min: -5, max: 5, step: 0.1 } },
+    { key: 'c', label: 'Chroma (C)', swatch: 'accent', min: 0, adjustment: { min: -10, max: 10, step: 0.2 } }
+  ],
+  fromRgb: rgbToMunsell,
+  toRgb: munsellToRgb,
+  approximateFromRgb: rgbToMunsellApprox,
+  format: (rgb, precision, settings) => `Munsell ${formatMunsell(rgbToMunsell(rgb, settings), precision + 1)}`,
+  visualize: (rgb, settings) => {
+    const munsell = rgbToMunsellApprox(rgb, settings);
+    // Show value, chroma and hue as separate channels
+    return { r: munsell.v * 25.5, g: munsell.c / 20 * 255, b: munsell.h / 100 * 255 };
+  },
+  note: () => 'Hue is in Munsell steps: 10 steps per hue family, 100 around the circle',
+  notation: {
+    parse: parseMunsell,
+    example: '5R 4/14',
+    hint: 'Enter a hue, value and chroma such as 2.5YR 6/8, or N and a value for neutrals'
+  },
+  solid: { shape: 'cylinder', hue: 'h', radius: 'c', height: 'v' }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'PQ',
+  label: 'PQ',
+  description: 'SMPTE ST 2084 perceptual quantizer - HDR10 signal',
+  channels: [
+    { key: 'r', label: "Red (R')", swatch: 'destructive', min: 0, max: 1, adjustment: { min: -1, max: 1, step: 0.01 } },
+    { key: 'g', label: "Green (G')", swatch: 'accent', min: 0, max: 1, adjustment: { min: -1, max: 1, step: 0.01 } },
+    { key: 'b', label: "Blue (B')", swatch: 'primary', min: 0, max: 1, adjustment: { min: -1, max: 1, step: 0.01 } }
+  ],
+  fromRgb: rgbToPq,
+  toRgb: pqToRgb,
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const pq = rgbToPq(rgb, settings);
+    return `PQ(${f(pq.r, 3)}, ${f(pq.g, 3)}, ${f(pq.b, 3)}) ${f(rgbToNits(rgb, settings))} cd/m²`;
+  },
+  visualize: toneMapped,
+  note: (settings) => `BT.2020 signal values, image white at ${settings.peakLuminance} cd/m²`
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'HLG',
+  label: 'HLG',
+  description: 'Hybrid Log-Gamma - Broadcast HDR signal',
+  channels: [
+    { key: 'r', label: "Red (R')", swatch: 'destructive', min: 0, max: 1, adjustment: { min: -1, max: 1, step: 0.01 } },
+    { key: 'g', label: "Green (G')", swatch: 'accent', min: 0, max: 1, adjustment: { min: -1, max: 1, step: 0.01 } },
+    { key: 'b', label: "Blue (B')", swatch: 'primary', min: 0, max: 1, adjustment: { min: -1, max: 1, step: 0.01 } }
+  ],
+  fromRgb: (rgb) => rgbToHlg(rgb),
+  toRgb: (hlg, _settings, clip) => hlgToRgb(hlg, clip),
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const hlg = rgbToHlg(rgb);
+    return `HLG(${f(hlg.r, 3)}, ${f(hlg.g, 3)}, ${f(hlg.b, 3)}) ${f(rgbToHlgNits(rgb, settings))} cd/m²`;
+  },
+  visualize: toneMapped,
+  note: (settings) => `BT.2020 signal values, shown on a ${settings.peakLuminance} cd/m² display`
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'ICTCP',
+  label: 'ICtCp',
+  description: 'Intensity, Blue-Yellow, Red-Green - BT.2100 HDR model',
+  channels: [
+    { key: 'i', label: 'Intensity (I)', swatch: 'foreground', min: 0, max: 1, adjustment: { min: -1, max: 1, step: 0.01 } },
+    { key: 'ct', label: 'Ct (Blue-Yellow)', swatch: 'primary', min: -0.5, max: 0.5, adjustment: { min: -0.5, max: 0.5, step: 0.005 } },
+    { key: 'cp', label: 'Cp (Red-Green)', swatch: 'destructive', min: -0.5, max: 0.5, adjustment: { min: -0.5, max: 0.5, step: 0.005 } }
+  ],
+  fromRgb: rgbToIctcp,
+  toRgb: ictcpToRgb,
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const ictcp = rgbToIctcp(rgb, settings);
+    return `ICtCp(${f(ictcp.i, 3)}, ${f(ictcp.ct, 3)}, ${f(ictcp.cp, 3)}) ${f(rgbToNits(rgb, settings))} cd/m²`;
+  },
+  visualize: toneMapped,
+  solid: { shape: 'box', axes: ['cp', 'i', 'ct'] }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'JZAZBZ',
+  label: 'JzAzBz',
+  description: 'Lightness, a, b - Perceptually uniform HDR space',
+  channels: [
+    { key: 'jz', label: 'Lightness (Jz)', swatch: 'foreground', min: 0, max: 1, adjustment: { min: -0.5, max: 0.5, step: 0.005 } },
+    { key: 'az', label: 'Az (Green-Red)', swatch: 'destructive', min: -0.5, max: 0.5, adjustment: { min: -0.2, max: 0.2, step: 0.002 } },
+    { key: 'bz', label: 'Bz (Blue-Yellow)', swatch: 'primary', min: -0.5, max: 0.5, adjustment: { min: -0.2, max: 0.2, step: 0.002 } }
+  ],
+  fromRgb: rgbToJzazbz,
+  toRgb: jzazbzToRgb,
+  format: (rgb, precision, settings) => {
+    const f = formatter(precision);
+    const jzazbz = rgbToJzazbz(rgb, settings);
+    return `JzAzBz(${f(jzazbz.jz, 3)}, ${f(jzazbz.az, 3)}, ${f(jzazbz.bz, 3)}) ${f(rgbToNits(rgb, settings))} cd/m²`;
+  },
+  visualize: toneMapped,
+  solid: { shape: 'box', axes: ['az', 'jz', 'bz'] }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'YUV',
+  label: 'YUV',
+  description: 'Luma, Chrominance - Analog video color model',
+  channels: [
+    { key: 'y', label: 'Luma (Y)', swatch: 'foreground', min: 0, max: 255, adjustment: { min: -255, max: 255, step: 1 } },
+    { key: 'u', label: 'U (Blue)', swatch: 'primary', min: 0, max: 255, adjustment: { min: -255, max: 255, step: 1 } },
+    { key: 'v', label: 'V (Red)', swatch: 'destructive', min: 0, max: 255, adjustment: { min: -255, max: 255, step: 1 } }
+  ],
+  fromRgb: (rgb) => rgbToYuv(rgb),
+  toRgb: (yuv, _settings, clip) => yuvToRgb(yuv, clip),
+  format: (rgb, precision) => {
+    const f = formatter(precision);
+    const yuv = rgbToYuv(rgb);
+    return `YUV(${f(yuv.y)}, ${f(yuv.u)}, ${f(yuv.v)})`;
+  },
+  visualize: (rgb) => {
+    const yuv = rgbToYuv(rgb);
+    // Apply YUV transformation
+    return { r: yuv.y, g: yuv.u, b: yuv.v };
+  },
+  education: {
+    summary: 'Luma (brightness) and Chrominance color encoding used in video transmission systems.',
+    color: 'secondary'
+  },
+  solid: { shape: 'box', axes: ['u', 'y', 'v'] }
+}));
+
+registerColorSpace(defineColorSpace({
+  id: 'YCBCR',
+  label: 'YCbCr',
+  description: 'Luma, Blue/Red difference - Digital video (BT.601/709/2020)',
+  // Code-value ranges follow the selected convention (219/224 steps in studio range).
+  // Not clamped: full-range chroma of saturated colors reaches 255.5, and ycbcrToRgb
+  // clips the resulting RGB anyway.
+  channels: (settings) => {
+    const lumaSpan = settings.ycbcrRange === 'limited' ? 219 : 255;
+    const chromaSpan = settings.ycbcrRange === 'limited' ? 224 : 255;
+    return [
+      { key: 'y', label: "Luma (Y')", swatch: 'foreground', adjustment: { min: -lumaSpan, max: lumaSpan, step: 1 } },
+      { key: 'cb', label: 'Cb (Blue difference)', swatch: 'primary', adjustment: { min: -chromaSpan, max: chromaSpan, step: 1 } },
+      { key: 'cr', label: 'Cr (Red difference)', swatch: 'destructive', adjustment: { min: -chromaSpan, max: chromaSpan, step: 1 } }
+    ];
+  },
+  fromRgb: rgbToYcbcr,
+  toRgb: ycbcrToRgb,
+  format: (rgb, precision, settings) => {
+    // Report the code values as stored, i.e. clipped to 8 bits
+    const f = formatter(precision);
+    const ycbcr = rgbToYcbcr(rgb, settings);
+    const code = (value: number) => f(Math.max(0, Math.min(255, value)));
+    return `YCbCr(${code(ycbcr.y)}, ${code(ycbcr.cb)}, ${code(ycbcr.cr)}) ${describeYcbcrConvention(settings)}`;
+  },
+  visualize: (rgb, settings) => {
+    const ycbcr = rgbToYcbcr(rgb, settings);
+    // Show the code values as they would be stored in a video frame
+    return { r: ycbcr.y, g: ycbcr.cb, b: ycbcr.cr };
+  },
+  note: (settings) => `${describeYcbcrConvention(settings)} code values`,
+  solid: { shape: 'box', axes: ['cb', 'y', 'cr'] }
+}));
+
+// Get color values in selected model, rounded to `precision` decimal places for display
+export function getColorInModel(
+  rgb: RGBColor,
+  model: ColorModel,
+  precision = 0,
+  settings: ConversionSettings = defaultConversionSettings
+): string {
+  const space = getColorSpace(model);
+  if (space) return space.format(rgb, precision, settings);
+
+  const f = formatter(precision);
+  return `RGB(${f(rgb.r)}, ${f(rgb.g)}, ${f(rgb.b)})`;
+}
+
+export interface TransformResult {
+  imageData: ImageData;
+  // Adjusted and gamut-mapped colors before the model visualization, e.g. for sampling and histograms
+  adjusted: ImageData;
+  // 1 for each pixel whose adjusted color fell outside sRGB and was gamut-mapped
+  outOfGamut: Uint8Array;
+  outOfGamutCount: number;
+}
+
+// Apply color model transformation to image data with adjustments.
+// Pixels stay in floating point through every conversion and are only
+// quantized when written back to the Uint8ClampedArray.
+// Adjusted colors outside sRGB are mapped back with settings.gamutMapping and flagged.
+export function transformImageDataWithGamut(
+  imageData: ImageData,
+  model: ColorModel,
+  adjustments?: ColorAdjustments,
+  settings: ConversionSettings = defaultConversionSettings
+): TransformResult {
+  const data = new Uint8ClampedArray(imageData.data);
+  const adjustedData = new Uint8ClampedArray(imageData.data);
+  const outOfGamut = new Uint8Array(imageData.width * imageData.height);
+  let outOfGamutCount = 0;
+  const result = () => ({
+    imageData: new ImageData(data, imageData.width, imageData.height),
+    adjusted: new ImageData(adjustedData, imageData.width, imageData.height),
+    outOfGamut,
+    outOfGamutCount
+  });
+  const space = getColorSpace(model);
+  if (!space) return result();
+
+  const channels = getChannels(space, settings);
+  const offsets = adjustments?.[space.id];
+  // Untouched sliders leave pixels as they are, even for approximate converters
+  const adjusting = offsets !== undefined && channels.some(channel => offsets[channel.key]);
+  const fromRgb = space.approximateFromRgb ?? space.fromRgb;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let rgb = { r: data[i], g: data[i + 1], b: data[i + 2] };
+
+    // Apply manual adjustments first, then bring the result back into sRGB
+    if (adjusting) {
+      const values = fromRgb(rgb, settings);
+      for (const channel of channels) {
+        values[channel.key] = adjustChannel(channel, values[channel.key], offsets[channel.key] || 0);
+      }
+      rgb = space.toRgb(values, settings, false);
+      if (!isInGamut(rgb)) {
+        outOfGamut[i / 4] = 1;
+        outOfGamutCount++;
+      }
+      rgb = mapToGamut(rgb, settings.gamutMapping, settings);
+      adjustedData[i] = rgb.r;
+      adjustedData[i + 1] = rgb.g;
+      adjustedData[i + 2] = rgb.b;
+    }
+
+    // Apply color model transformation for visualization
+    const shown = space.visualize ? space.visualize(rgb, settings) : rgb;
+    data[i] = shown.r;
+    data[i + 1] = shown.g;
+    data[i + 2] = shown.b;
+  }
+
+  return result();
+}
+
+// The transformed pixels alone, as drawn when no gamut overlay is needed
+export function transformImageData(
+  imageData: ImageData,
+  model: ColorModel,
+  adjustments?: ColorAdjustments,
+  settings: ConversionSettings = defaultConversionSettings
+): ImageData {
+  return transformImageDataWithGamut(imageData, model, adjustments, settings).imageData;
+}
@@ -0,0 +1,308 @@
+// CSS Color Level 4 parsing and serialization. Parsed colors come back as sRGB (0-255), unclipped,
+// so wide-gamut input such as color(display-p3 ...) or a saturated oklch() keeps its values.
+
+import {
+  ConversionSettings,
+  RGBColor,
+  RGBSpace,
+  RGB_SPACES,
+  clipRgb,
+  defaultConversionSettings,
+  hslToRgb,
+  hwbToRgb,
+  labToRgb,
+  oklabToRgb,
+  rgbToHsl,
+  rgbToHwb,
+  rgbToLab,
+  rgbToOklab,
+  rgbToWorkingSpace,
+  workingSpaceToRgb,
+  xyzToRgb
+} from './colorConversions';
+import { CSS_NAMED_COLORS } from './cssNamedColors';
+
+export interface CssColor {
+  rgb: RGBColor;
+  // 0-1
+  alpha: number;
+}
+
+export type CssColorFormat = 'hex' | 'rgb' | 'hsl' | 'hwb' | 'lab' | 'lch' | 'oklab' | 'oklch' | 'display-p3';
+
+export const CSS_COLOR_FORMATS: { id: CssColorFormat; label: string }[] = [
+  { id: 'hex', label: 'Hex' },
+  { id: 'rgb', label: 'rgb()' },
+  { id: 'hsl', label: 'hsl()' },
+  { id: 'hwb', label: 'hwb()' },
+  { id: 'lab', label: 'lab()' },
+  { id: 'lch', label: 'lch()' },
+  { id: 'oklab', label: 'oklab()' },
+  { id: 'oklch', label: 'oklch()' },
+  { id: 'display-p3', label: 'color(display-p3)' }
+];
+
+// CSS converts between spaces with Bradford adaptation; lab() and lch() are relative to D50
+const CSS_SETTINGS: ConversionSettings = { ...defaultConversionSettings, adaptation: 'Bradford' };
+const CSS_D50_SETTINGS: ConversionSettings = { ...CSS_SETTINGS, whitePoint: 'D50' };
+
+function rgbSpace(id: string): RGBSpace {
+  const space = RGB_SPACES.find(candidate => candidate.id === id);
+  if (!space) throw new Error(`Missing RGB space "${id}"`);
+  return space;
+}
+
+// Spaces accepted by color(); the RGB ones go through the working-space converters
+const PREDEFINED_RGB_SPACES: Record<string, RGBSpace> = {
+  'srgb': rgbSpace('srgb'),
+  'srgb-linear': { ...rgbSpace('srgb'), id: 'srgb-linear', name: 'Linear sRGB', transfer: 'linear' },
+  'display-p3': rgbSpace('display-p3'),
+  'a98-rgb': rgbSpace('adobe-rgb'),
+  'prophoto-rgb': rgbSpace('prophoto'),
+  'rec2020': rgbSpace('rec2020')
+};
+
+const PREDEFINED_XYZ_SPACES: Record<string, ConversionSettings> = {
+  'xyz': CSS_SETTINGS,
+  'xyz-d65': CSS_SETTINGS,
+  'xyz-d50': CSS_D50_SETTINGS
+};
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/;
+
+const HUE_UNITS: Record<string, number> = {
+  deg: 1,
+  grad: 0.9,
+  rad: 180 / Math.PI,
+  turn: 360
+};
+
+function parseNumber(token: string): number | null {
+  return NUMBER_PATTERN.test(token) ? Number(token) : null;
+}
+
+// Number, or percentage scaled so that 100% = `percentScale`; `none` is 0
+function parseComponent(token: string, percentScale: number): number | null {
+  if (token === 'none') return 0;
+  if (token.endsWith('%')) {
+    const value = parseNumber(token.slice(0, -1));
+    return value === null ? null : value / 100 * percentScale;
+  }
+  return parseNumber(token);
+}
+
+// Angle in degrees, normalized to 0-360; bare numbers are degrees
+function parseHue(token: string): number | null {
+  if (token === 'none') return 0;
+  const match = /^(.*?)(deg|grad|rad|turn)?$/.exec(token);
+  const value = match && parseNumber(match[1]);
+  if (value === null || value === undefined) return null;
+  const degrees = value * HUE_UNITS[match[2] ?? 'deg'];
+  return (degrees % 360 + 360) % 360;
+}
+
+function parseAlpha(token: string | undefined): number | null {
+  if (token === undefined) return 1;
+  const value = parseComponent(token, 1);
+  return value === null ? null : Math.max(0, Math.min(1, value));
+}
+
+function parseHex(hex: string): CssColor | null {
+  if (!/^[0-9a-f]+$/.test(hex) || ![3, 4, 6, 8].includes(hex.length)) return null;
+  const digits = hex.length <= 4 ? hex.split('').map(digit => digit + digit) : hex.match(/../g) ?? [];
+  const [r, g, b, a = 'ff'] = digits;
+  return {
+    rgb: { r: parseInt(r, 16), g: parseInt(g, 16), b: parseInt(b, 16) },
+    alpha: parseInt(a, 16) / 255
+  };
+}
+
+// Split a function body into its components and the optional alpha after the slash.
+// Commas (the legacy syntax) are only accepted where `legacy` is set.
+function splitArguments(body: string, legacy: boolean): { components: string[]; alpha?: string } | null {
+  if (body.includes(',')) {
+    if (!legacy || body.includes('/')) return null;
+    const parts = body.split(',').map(part => part.trim());
+    if (parts.some(part => part === '' || /\s/.test(part))) return null;
+    return parts.length === 4 ? { components: parts.slice(0, 3), alpha: parts[3] } : { components: parts };
+  }
+
+  const [main, alpha, extra] = body.split('/').map(part => part.trim());
+  if (extra !== undefined || alpha === '') return null;
+  return { components: main.split(/\s+/).filter(Boolean), alpha };
+}
+
+// Parse any CSS Color 4 color: hex, named colors, rgb(), hsl(), hwb(), lab(), lch(),
+// oklab(), oklch() and color(). Returns null for anything else (including currentcolor).
+export function parseCssColor(text: string): CssColor | null {
+  const input = text.trim().toLowerCase();
+
+  if (input.startsWith('#')) return parseHex(input.slice(1));
+  if (input === 'transparent') return { rgb: { r: 0, g: 0, b: 0 }, alpha: 0 };
+  if (CSS_NAMED_COLORS[input]) return parseHex(CSS_NAMED_COLORS[input].slice(1));
+
+  const match = /^([a-z0-9-]+)\(\s*(.*?)\s*\)$/s.exec(input);
+  if (!match) return null;
+  const [, name, body] = match;
+
+  const args = splitArguments(body, ['rgb', 'rgba', 'hsl', 'hsla'].includes(name));
+  if (!args) return null;
+  const alpha = parseAlpha(args.alpha);
+  if (alpha === null) return null;
+
+  const rgb = parseFunction(name, args.components);
+  return rgb && { rgb, alpha };
+}
+
+function parseFunction(name: string, components: string[]): RGBColor | null {
+  if (name === 'color') {
+    const [space, ...values] = components;
+    return values.length === 3 ? parsePredefined(space, values) : null;
+  }
+  if (components.length !== 3) return null;
+  const [first, second, third] = components;
+
+  switch (name) {
+    case 'rgb':
+    case 'rgba': {
+      const [r, g, b] = components.map(token => parseComponent(token, 255));
+      if (r === null || g === null || b === null) return null;
+      const clamp = (value: number) => Math.max(0, Math.min(255, value));
+      return { r: clamp(r), g: clamp(g), b: clamp(b) };
+    }
+    case 'hsl':
+    case 'hsla': {
+      const h = parseHue(first);
+      const s = parseComponent(second, 100);
+      const l = parseComponent(third, 100);
+      if (h === null || s === null || l === null) return null;
+      return hslToRgb({ h, s: Math.max(0, Math.min(100, s)), l: Math.max(0, Math.min(100, l)) });
+    }
+    case 'hwb': {
+      const h = parseHue(first);
+      const w = parseComponent(second, 100);
+      const b = parseComponent(third, 100);
+      if (h === null || w === null || b === null) return null;
+      return hwbToRgb({ h, w: Math.max(0, w), b: Math.max(0, b) });
+    }
+    case 'lab': {
+      const l = parseComponent(first, 100);
+      const a = parseComponent(second, 125);
+      const b = parseComponent(third, 125);
+      if (l === null || a === null || b === null) return null;
+      return labToRgb({ l: Math.max(0, l), a, b }, CSS_D50_SETTINGS, false);
+    }
+    case 'lch': {
+      const l = parseComponent(first, 100);
+      const c = parseComponent(second, 150);
+      const h = parseHue(third);
+      if (l === null || c === null || h === null) return null;
+      const hue = h * Math.PI / 180;
+      const chroma = Math.max(0, c);
+      return labToRgb({ l: Math.max(0, l), a: chroma * Math.cos(hue), b: chroma * Math.sin(hue) }, CSS_D50_SETTINGS, false);
+    }
+    case 'oklab': {
+      const l = parseComponent(first, 1);
+      const a = parseComponent(second, 0.4);
+      const b = parseComponent(third, 0.4);
+      if (l === null || a === null || b === null) return null;
+      return oklabToRgb({ l: Math.max(0, l), a, b }, false);
+    }
+    case 'oklch': {
+      const l = parseComponent(first, 1);
+      const c = parseComponent(second, 0.4);
+      const h = parseHue(third);
+      if (l === null || c === null || h === null) return null;
+      const hue = h * Math.PI / 180;
+      const chroma = Math.max(0, c);
+      return oklabToRgb({ l: Math.max(0, l), a: chroma * Math.cos(hue), b: chroma * Math.sin(hue) }, false);
+    }
+    default:
+      return null;
+  }
+}
+
+function parsePredefined(space: string, tokens: string[]): RGBColor | null {
+  const values = tokens.map(token => parseComponent(token, 1));
+  if (values.some(value => value === null)) return null;
+  const [first, second, third] = values as number[];
+
+  const rgbSpaceForColor = PREDEFINED_RGB_SPACES[space];
+  if (rgbSpaceForColor) {
+    return workingSpaceToRgb(
+      { r: first * 255, g: second * 255, b: third * 255 },
+      { ...CSS_SETTINGS, rgbSpace: rgbSpaceForColor },
+      false
+    );
+  }
+
+  const xyzSettings = PREDEFINED_XYZ_SPACES[space];
+  if (xyzSettings) {
+    return xyzToRgb({ x: first * 100, y: second * 100, z: third * 100 }, xyzSettings, false);
+  }
+  return null;
+}
+
+// Shortest decimal with at most `digits` places, never "-0"
+function formatNumber(value: number, digits: number): string {
+  const rounded = Number(value.toFixed(digits));
+  return (rounded === 0 ? 0 : rounded).toString();
+}
+
+function formatAlpha(alpha: number): string {
+  return alpha < 1 ? ` / ${formatNumber(alpha, 3)}` : '';
+}
+
+// Serialize an sRGB color (0-255) as valid CSS. hex, rgb(), hsl() and hwb() are sRGB-only and
+// clip out-of-gamut colors; the other formats keep them.
+export function formatCssColor(rgb: RGBColor, format: CssColorFormat, alpha = 1): string {
+  switch (format) {
+    case 'hex': {
+      const channels = Object.values(clipRgb(rgb));
+      if (alpha < 1) channels.push(alpha * 255);
+      return '#' + channels.map(value => Math.round(value).toString(16).padStart(2, '0')).join('');
+    }
+    case 'rgb': {
+      const { r, g, b } = clipRgb(rgb);
+      return `rgb(${formatNumber(r, 0)} ${formatNumber(g, 0)} ${formatNumber(b, 0)}${formatAlpha(alpha)})`;
+    }
+    case 'hsl': {
+      const hsl = rgbToHsl(clipRgb(rgb));
+      return `hsl(${formatNumber(hsl.h, 1)} ${formatNumber(hsl.s, 1)}% ${formatNumber(hsl.l, 1)}%${formatAlpha(alpha)})`;
+    }
+    case 'hwb': {
+      const hwb = rgbToHwb(clipRgb(rgb));
+      return `hwb(${formatNumber(hwb.h, 1)} ${formatNumber(hwb.w, 1)}% ${formatNumber(hwb.b, 1)}%${formatAlpha(alpha)})`;
+    }
+    case 'lab': {
+      const lab = rgbToLab(rgb, CSS_D50_SETTINGS);
+      return `lab(${formatNumber(lab.l, 2)} ${formatNumber(lab.a, 2)} ${formatNumber(lab.b, 2)}${formatAlpha(alpha)})`;
+    }
+    case 'lch': {
+      const lab = rgbToLab(rgb, CSS_D50_SETTINGS);
+      const { c, h } = toPolar(lab.a, lab.b);
+      return `lch(${formatNumber(lab.l, 2)} ${formatNumber(c, 2)} ${formatNumber(h, 2)}${formatAlpha(alpha)})`;
+    }
+    case 'oklab': {
+      const oklab = rgbToOklab(rgb);
+      return `oklab(${formatNumber(oklab.l, 4)} ${formatNumber(oklab.a, 4)} ${formatNumber(oklab.b, 4)}${formatAlpha(alpha)})`;
+    }
+    case 'oklch': {
+      const oklab = rgbToOklab(rgb);
+      const { c, h } = toPolar(oklab.a, oklab.b);
+      return `oklch(${formatNumber(oklab.l, 4)} ${formatNumber(c, 4)} ${formatNumber(h, 2)}${formatAlpha(alpha)})`;
+    }
+    case 'display-p3': {
+      const p3 = rgbToWorkingSpace(rgb, { ...CSS_SETTINGS, rgbSpace: PREDEFINED_RGB_SPACES['display-p3'] });
+      const values = [p3.r, p3.g, p3.b].map(value => formatNumber(value / 255, 4));
+      return `color(display-p3 ${values.join(' ')}${formatAlpha(alpha)})`;
+    }
+  }
+}
+
+// Chroma and hue (degrees, 0-360) of an opponent pair
+function toPolar(a: number, b: number): { c: number; h: number } {
+  const h = Math.atan2(b, a) * 180 / Math.PI;
+  return { c: Math.sqrt(a * a + b * b), h: h < 0 ? h + 360 : h };
+}
+
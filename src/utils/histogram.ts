@@ -0,0 +1,106 @@
+// Per-channel histograms of images in any registered color model
+
+import { ConversionSettings, defaultConversionSettings } from './colorConversions';
+import { ColorChannel, ColorModel, getChannels, getColorSpace } from './colorSpaces';
+
+export interface HistogramSeries {
+  counts: number[];
+  // Samples at the channel's lower and upper bound; null for hues and unbounded ends
+  low: number | null;
+  high: number | null;
+}
+
+export interface ChannelHistogram {
+  channel: ColorChannel;
+  // Value range covered by the bins, shared by every image so they can be compared
+  min: number;
+  max: number;
+  // One series per input image, in order
+  series: HistogramSeries[];
+}
+
+export interface HistogramResult {
+  channels: ChannelHistogram[];
+  // Pixels sampled from each image
+  samples: number;
+}
+
+// Images are sampled on a regular stride above this many pixels, so slider drags stay interactive
+const MAX_HISTOGRAM_SAMPLES = 40000;
+
+// Distance from a bound, relative to the range, that still counts as clipped
+const CLIP_TOLERANCE = 1e-4;
+
+// Histograms of every channel of `model` for images of the same size (e.g. original and adjusted).
+// Channels without a declared range use the range observed across all images.
+export function channelHistograms(
+  images: ImageData[],
+  model: ColorModel,
+  settings: ConversionSettings = defaultConversionSettings,
+  binCount = 64
+): HistogramResult {
+  const space = getColorSpace(model);
+  if (!space || images.length === 0) return { channels: [], samples: 0 };
+
+  const channels = getChannels(space, settings);
+  const fromRgb = space.approximateFromRgb ?? space.fromRgb;
+  const pixelCount = images[0].width * images[0].height;
+  const stride = Math.max(1, Math.ceil(pixelCount / MAX_HISTOGRAM_SAMPLES));
+  const samples = Math.ceil(pixelCount / stride);
+
+  // Channel values per image, NaN where the model has no value (e.g. CAM16 for imaginary colors)
+  const values = images.map(image => {
+    const perChannel = channels.map(() => new Float64Array(samples));
+    for (let sample = 0; sample < samples; sample++) {
+      const i = sample * stride * 4;
+      const converted = fromRgb({ r: image.data[i], g: image.data[i + 1], b: image.data[i + 2] }, settings);
+      channels.forEach((channel, index) => {
+        perChannel[index][sample] = converted[channel.key];
+      });
+    }
+    return perChannel;
+  });
+
+  const histograms = channels.map((channel, index) => {
+    let min = channel.min ?? Infinity;
+    let max = channel.max ?? -Infinity;
+    if (channel.min === undefined || channel.max === undefined) {
+      for (const perChannel of values) {
+        for (const value of perChannel[index]) {
+          if (!Number.isFinite(value)) continue;
+          if (channel.min === undefined) min = Math.min(min, value);
+          if (channel.max === undefined) max = Math.max(max, value);
+        }
+      }
+    }
+    if (!Number.isFinite(min) || !Number.isFinite(max)) {
+      min = 0;
+      max = 1;
+    }
+    const span = max - min || 1;
+    const tolerance = span * CLIP_TOLERANCE;
+    const bounded = !channel.wrap;
+
+    const series = values.map(perChannel => {
+      const counts = new Array<number>(binCount).fill(0);
+      let low = 0;
+      let high = 0;
+      for (const value of perChannel[index]) {
+        if (!Number.isFinite(value)) continue;
+        const bin = Math.floor((value - min) / span * binCount);
+        counts[Math.max(0, Math.min(binCount - 1, bin))]++;
+        if (value <= min + tolerance) low++;
+        if (value >= max - tolerance) high++;
+      }
+      return {
+        counts,
+        low: bounded && channel.min !== undefined ? low : null,
+        high: bounded && channel.max !== undefined ? high : null
+      };
+    });
+
+    return { channel, min, max, series };
+  });
+
+  return { channels: histograms, samples };
+}
@@ -0,0 +1,270 @@
+// ISCC-NBS descriptive color categories at their centroid colors (sRGB hex)
+export const ISCC_NBS_COLORS: Record<string, string> = {
+  'vivid pink': '#ffb5ba',
+  'strong pink': '#ea9399',
+  'deep pink': '#e4717a',
+  'light pink': '#f9ccca',
+  'moderate pink': '#dea5a4',
+  'dark pink': '#c08081',
+  'pale pink': '#ead8d7',
+  'grayish pink': '#c4aead',
+  'pinkish white': '#eae3e1',
+  'pinkish gray': '#c1b6b3',
+  'vivid red': '#be0032',
+  'strong red': '#bc3f4a',
+  'deep red': '#841b2d',
+  'very deep red': '#5c0923',
+  'moderate red': '#ab4e52',
+  'dark red': '#722f37',
+  'very dark red': '#3f1728',
+  'light grayish red': '#ad8884',
+  'grayish red': '#905d5d',
+  'dark grayish red': '#543d3f',
+  'blackish red': '#2e1d21',
+  'reddish gray': '#8f817f',
+  'dark reddish gray': '#5c504f',
+  'reddish black': '#282022',
+  'vivid yellowish pink': '#ffb7a5',
+  'strong yellowish pink': '#f99379',
+  'deep yellowish pink': '#e66761',
+  'light yellowish pink': '#f4c2c2',
+  'moderate yellowish pink': '#d9a6a9',
+  'dark yellowish pink': '#c48379',
+  'pale yellowish pink': '#ecd5c5',
+  'grayish yellowish pink': '#c7ada3',
+  'brownish pink': '#c2ac99',
+  'vivid reddish orange': '#e25822',
+  'strong reddish orange': '#d9603b',
+  'deep reddish orange': '#aa381e',
+  'moderate reddish orange': '#cb6d51',
+  'dark reddish orange': '#9e4732',
+  'grayish reddish orange': '#b4745e',
+  'strong reddish brown': '#882d17',
+  'deep reddish brown': '#56070c',
+  'light reddish brown': '#a87c6d',
+  'moderate reddish brown': '#79443b',
+  'dark reddish brown': '#3e1d1e',
+  'light grayish reddish brown': '#977f73',
+  'grayish reddish brown': '#674c47',
+  'dark grayish reddish brown': '#43302e',
+  'vivid orange': '#f38400',
+  'brilliant orange': '#fd943f',
+  'strong orange': '#ed872d',
+  'deep orange': '#be6516',
+  'light orange': '#fab57f',
+  'moderate orange': '#d99058',
+  'brownish orange': '#ae6938',
+  'strong brown': '#80461b',
+  'deep brown': '#593319',
+  'light brown': '#a67b5b',
+  'moderate brown': '#6f4e37',
+  'dark brown': '#422518',
+  'light grayish brown': '#958070',
+  'grayish brown': '#635147',
+  'dark grayish brown': '#3e322c',
+  'light brownish gray': '#8e8279',
+  'brownish gray': '#5b504f',
+  'brownish black': '#28201c',
+  'vivid orange yellow': '#f6a600',
+  'brilliant orange yellow': '#ffc14f',
+  'strong orange yellow': '#eaa221',
+  'deep orange yellow': '#c98500',
+  'light orange yellow': '#fbc97f',
+  'moderate orange yellow': '#e3a857',
+  'dark orange yellow': '#be8a3d',
+  'pale orange yellow': '#fad6a5',
+  'strong yellowish brown': '#996515',
+  'deep yellowish brown': '#654522',
+  'light yellowish brown': '#c19a6b',
+  'moderate yellowish brown': '#826644',
+  'dark yellowish brown': '#4b3621',
+  'light grayish yellowish brown': '#ae9b82',
+  'grayish yellowish brown': '#7e6d5a',
+  'dark grayish yellowish brown': '#483c32',
+  'vivid yellow': '#f3c300',
+  'brilliant yellow': '#fada5e',
+  'strong yellow': '#d4af37',
+  'deep yellow': '#af8d13',
+  'light yellow': '#f8de7e',
+  'moderate yellow': '#c9ae5d',
+  'dark yellow': '#ab9144',
+  'pale yellow': '#f3e5ab',
+  'grayish yellow': '#c2b280',
+  'dark grayish yellow': '#a18f60',
+  'yellowish white': '#f0ead6',
+  'yellowish gray': '#bfb8a5',
+  'light olive brown': '#967117',
+  'moderate olive brown': '#6c541e',
+  'dark olive brown': '#3b3121',
+  'vivid greenish yellow': '#dcd300',
+  'brilliant greenish yellow': '#e9e450',
+  'strong greenish yellow': '#beb72e',
+  'deep greenish yellow': '#9b9400',
+  'light greenish yellow': '#eae679',
+  'moderate greenish yellow': '#b9b459',
+  'dark greenish yellow': '#98943e',
+  'pale greenish yellow': '#ebe8a4',
+  'grayish greenish yellow': '#b9b57d',
+  'light olive': '#867e36',
+  'moderate olive': '#665d1e',
+  'dark olive': '#403d21',
+  'light grayish olive': '#8c8767',
+  'grayish olive': '#5b5842',
+  'dark grayish olive': '#363527',
+  'light olive gray': '#8a8776',
+  'olive gray': '#57554c',
+  'olive black': '#25241d',
+  'vivid yellow green': '#8db600',
+  'brilliant yellow green': '#bdda57',
+  'strong yellow green': '#7e9f2e',
+  'deep yellow green': '#467129',
+  'light yellow green': '#c9dc89',
+  'moderate yellow green': '#8a9a5b',
+  'pale yellow green': '#dadfb7',
+  'grayish yellow green': '#8f9779',
+  'strong olive green': '#404f00',
+  'deep olive green': '#232f00',
+  'moderate olive green': '#4a5d23',
+  'dark olive green': '#2b3d26',
+  'grayish olive green': '#515744',
+  'dark grayish olive green': '#31362b',
+  'vivid yellowish green see #115': '#27a64c',
+  'brilliant yellowish green': '#83d37d',
+  'strong yellowish green': '#44944a',
+  'deep yellowish green': '#00622d',
+  'very deep yellowish green': '#003118',
+  'very light yellowish green': '#b6e5af',
+  'light yellowish green': '#93c592',
+  'moderate yellowish green': '#679267',
+  'dark yellowish green': '#355e3b',
+  'very dark yellowish green': '#173620',
+  'vivid green': '#008856',
+  'brilliant green': '#3eb489',
+  'strong green': '#007959',
+  'deep green': '#00543d',
+  'very light green': '#8ed1b2',
+  'light green': '#6aab8e',
+  'moderate green': '#3b7861',
+  'dark green': '#1b4d3e',
+  'very dark green': '#1c352d',
+  'very pale green': '#c7e6d7',
+  'pale green': '#8da399',
+  'grayish green': '#5e716a',
+  'dark grayish green': '#3a4b47',
+  'blackish green': '#1a2421',
+  'greenish white': '#dfede8',
+  'light greenish gray': '#b2beb5',
+  'greenish gray': '#7d8984',
+  'dark greenish gray': '#4e5755',
+  'greenish black': '#1e2321',
+  'vivid bluish green': '#008882',
+  'brilliant bluish green': '#00a693',
+  'strong bluish green': '#007a74',
+  'deep bluish green': '#00443f',
+  'very light bluish green': '#96ded1',
+  'light bluish green': '#66ada4',
+  'moderate bluish green': '#317873',
+  'dark bluish green': '#004b49',
+  'very dark bluish green': '#002a29',
+  'vivid greenish blue': '#0085a1',
+  'brilliant greenish blue': '#239eba',
+  'strong greenish blue': '#007791',
+  'deep greenish blue': '#2e8495',
+  'very light greenish blue': '#9cd1dc',
+  'light greenish blue': '#66aabc',
+  'moderate greenish blue': '#367588',
+  'dark greenish blue': '#004958',
+  'very dark greenish blue': '#002e3b',
+  'vivid blue, ultramarine': '#00a1c2',
+  'brilliant blue, celestial blue': '#4997d0',
+  'strong blue, bright blue': '#0067a5',
+  'deep blue, royal blue': '#00416a',
+  'very light blue, baby blue': '#a1caf1',
+  'light blue, sky blue': '#70a3cc',
+  'moderate blue, cerulean blue': '#436b95',
+  'dark blue, navy blue': '#00304e',
+  'very pale blue, cloud blue': '#bcd4e6',
+  'pale blue, alice blue': '#91a3b0',
+  'grayish blue, slate blue': '#536878',
+  'dark grayish blue': '#36454f',
+  'blackish blue': '#202830',
+  'bluish white': '#e9e9ed',
+  'light bluish gray': '#b4bcc0',
+  'bluish gray': '#81878b',
+  'dark bluish gray': '#51585e',
+  'bluish black': '#202428',
+  'vivid purplish blue': '#30267a',
+  'brilliant purplish blue': '#6c79b8',
+  'strong purplish blue': '#545aa7',
+  'deep purplish blue': '#272458',
+  'very light purplish blue': '#b3bce2',
+  'light purplish blue': '#8791bf',
+  'moderate purplish blue': '#4e5180',
+  'dark purplish blue': '#252440',
+  'very pale purplish blue': '#c0c8e1',
+  'pale purplish blue': '#8c92ac',
+  'grayish purplish blue': '#4c516d',
+  'vivid violet': '#9065ca',
+  'brilliant violet': '#7e73b8',
+  'strong violet': '#604e97',
+  'deep violet': '#32174d',
+  'very light violet': '#dcd0ff',
+  'light violet': '#8c82b6',
+  'moderate violet': '#604e81',
+  'dark violet': '#2f2140',
+  'very pale violet': '#c4c3dd',
+  'pale violet': '#9690ab',
+  'grayish violet': '#554c69',
+  'vivid purple': '#9a4eae',
+  'brilliant purple': '#d399e6',
+  'strong purple': '#875692',
+  'deep purple': '#602f6b',
+  'very deep purple': '#401a4c',
+  'very light purple': '#d5badb',
+  'light purple': '#b695c0',
+  'moderate purple': '#86608e',
+  'dark purple': '#563c5c',
+  'very dark purple': '#301934',
+  'very pale purple': '#d6cadd',
+  'pale purple': '#aa98a9',
+  'grayish purple': '#796878',
+  'dark grayish purple': '#50404d',
+  'blackish purple': '#291e29',
+  'purplish white': '#e8e3e5',
+  'light purplish gray': '#bfb9bd',
+  'purplish gray': '#8b8589',
+  'dark purplish gray': '#5d555b',
+  'purplish black': '#242124',
+  'vivid reddish purple': '#870074',
+  'strong reddish purple': '#9e4f88',
+  'deep reddish purple': '#702963',
+  'very deep reddish purple': '#54194e',
+  'light reddish purple': '#b784a7',
+  'moderate reddish purple': '#915c83',
+  'dark reddish purple': '#5d3954',
+  'very dark reddish purple': '#341731',
+  'pale reddish purple': '#aa8a9e',
+  'grayish reddish purple': '#836479',
+  'brilliant purplish pink': '#ffc8d6',
+  'strong purplish pink': '#e68fac',
+  'deep purplish pink': '#de6fa1',
+  'light purplish pink': '#efbbcc',
+  'moderate purplish pink': '#d597ae',
+  'dark purplish pink': '#c17e91',
+  'pale purplish pink': '#e8ccd7',
+  'grayish purplish pink': '#c3a6b1',
+  'vivid purplish red': '#ce4676',
+  'strong purplish red': '#b3446c',
+  'deep purplish red': '#78184a',
+  'very deep purplish red': '#54133b',
+  'moderate purplish red': '#a8516e',
+  'dark purplish red': '#673147',
+  'very dark purplish red': '#38152c',
+  'light grayish purplish red': '#af868e',
+  'grayish purplish red': '#915f6d',
+  white: '#f2f3f4',
+  'light gray': '#b9b8b5',
+  'medium gray': '#848482',
+  'dark gray': '#555555',
+  black: '#222222',
+};
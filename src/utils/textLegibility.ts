@@ -0,0 +1,110 @@
+// Legibility of text over an image: contrast of one text color against every pixel behind it,
+// optionally behind a scrim (a translucent layer between image and text).
+
+import { RGBColor, apcaContrast, contrastRatio, relativeLuminance, srgbToLinear } from './colorConversions';
+
+export interface LegibilityOptions {
+  // WCAG ratio the text must reach, e.g. 4.5 for AA body text
+  targetRatio: number;
+  // Share of pixels allowed below the percentile figures, 0-1
+  percentile: number;
+  scrim: RGBColor;
+  // 0-1; the scrim is composited over the image in sRGB, as browsers blend
+  scrimOpacity: number;
+}
+
+export interface LegibilityReport {
+  pixelCount: number;
+  worstRatio: number;
+  percentileRatio: number;
+  // APCA Lc with the smallest magnitude, and at the percentile; signed like apcaContrast
+  worstLc: number;
+  percentileLc: number;
+  // Pixels under the text below the target ratio: a 0/1 flag per pixel and their share
+  failing: Uint8Array;
+  failingShare: number;
+  // Lowest scrim opacity at which every pixel passes, or null if even an opaque scrim fails
+  suggestedScrimOpacity: number | null;
+}
+
+// Share of the lowest-contrast pixels the percentile figures leave out
+export const LEGIBILITY_PERCENTILE = 0.1;
+
+const SCRIM_STEPS = 100;
+
+// Black behind light text, white behind dark text
+export function scrimColorFor(text: RGBColor): RGBColor {
+  return relativeLuminance(text) > 0.18 ? { r: 0, g: 0, b: 0 } : { r: 255, g: 255, b: 255 };
+}
+
+const blend = (pixel: RGBColor, scrim: RGBColor, opacity: number): RGBColor => ({
+  r: scrim.r * opacity + pixel.r * (1 - opacity),
+  g: scrim.g * opacity + pixel.g * (1 - opacity),
+  b: scrim.b * opacity + pixel.b * (1 - opacity)
+});
+
+// Value at a fraction of the sorted values (0 = smallest)
+const percentileOf = (sorted: Float64Array, fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(fraction * sorted.length)))];
+
+// Lowest opacity (in 1% steps) at which the worst pixel reaches the target. Luminance of a blended
+// 8-bit channel comes from a 256-entry table per step, so this stays cheap for large boxes.
+function findScrimOpacity(data: Uint8ClampedArray, text: RGBColor, scrim: RGBColor, targetRatio: number): number | null {
+  const textLuminance = relativeLuminance(text);
+  const tables = [new Float64Array(256), new Float64Array(256), new Float64Array(256)];
+  const scrimChannels = [scrim.r, scrim.g, scrim.b];
+
+  for (let step = 0; step <= SCRIM_STEPS; step++) {
+    const opacity = step / SCRIM_STEPS;
+    tables.forEach((table, channel) => {
+      for (let value = 0; value < 256; value++) {
+        table[value] = srgbToLinear((scrimChannels[channel] * opacity + value * (1 - opacity)) / 255);
+      }
+    });
+
+    let passes = true;
+    for (let i = 0; i < data.length && passes; i += 4) {
+      const luminance = 0.2126 * tables[0][data[i]] + 0.7152 * tables[1][data[i + 1]] + 0.0722 * tables[2][data[i + 2]];
+      const ratio = (Math.max(luminance, textLuminance) + 0.05) / (Math.min(luminance, textLuminance) + 0.05);
+      passes = ratio >= targetRatio;
+    }
+    if (passes) return opacity;
+  }
+  return null;
+}
+
+// Contrast of `text` against every pixel of `background` (the image region behind the text)
+export function analyzeTextLegibility(background: ImageData, text: RGBColor, options: LegibilityOptions): LegibilityReport {
+  const { data } = background;
+  const pixelCount = data.length / 4;
+  const ratios = new Float64Array(pixelCount);
+  const lcs = new Float64Array(pixelCount);
+  const failing = new Uint8Array(pixelCount);
+  let failingCount = 0;
+
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const i = pixel * 4;
+    const shown = blend({ r: data[i], g: data[i + 1], b: data[i + 2] }, options.scrim, options.scrimOpacity);
+    ratios[pixel] = contrastRatio(text, shown);
+    lcs[pixel] = apcaContrast(text, shown);
+    if (ratios[pixel] < options.targetRatio) {
+      failing[pixel] = 1;
+      failingCount++;
+    }
+  }
+
+  // Lc is signed by polarity; rank by magnitude and keep the sign of the pixel found
+  const sortedRatios = ratios.slice().sort();
+  const sortedLcs = lcs.slice().sort((a, b) => Math.abs(a) - Math.abs(b));
+
+  return {
+    pixelCount,
+    worstRatio: pixelCount ? sortedRatios[0] : 0,
+    percentileRatio: pixelCount ? percentileOf(sortedRatios, options.percentile) : 0,
+    worstLc: pixelCount ? sortedLcs[0] : 0,
+    percentileLc: pixelCount ? percentileOf(sortedLcs, options.percentile) : 0,
+    failing,
+    failingShare: pixelCount ? failingCount / pixelCount : 0,
+    suggestedScrimOpacity: findScrimOpacity(data, text, options.scrim, options.targetRatio)
+  };
+}
@@ -0,0 +1,146 @@
+// Vectorscope: chroma of every pixel on the Cb/Cr (or analog U/V) plane, as on a video scope
+
+import { ConversionSettings, RGBColor, defaultConversionSettings, rgbToYcbcr, rgbToYuv } from './colorConversions';
+
+export type VectorscopePlane = 'cbcr' | 'uv';
+
+// Plot position with the neutral axis at 0, 0; +-1 is the edge of the graticule circle and y points up
+export interface VectorscopePoint {
+  x: number;
+  y: number;
+}
+
+export interface VectorscopeTarget extends VectorscopePoint {
+  // Conventional bar name, e.g. 'R' or 'Yl'
+  label: string;
+  rgb: RGBColor;
+  // Color bar level in percent
+  level: 75 | 100;
+}
+
+export interface VectorscopeDensity {
+  // Square grid, row 0 at the top
+  size: number;
+  counts: Uint32Array;
+  // Summed sRGB 0-255 of the pixels in each cell, three values per cell
+  colors: Float64Array;
+  maxCount: number;
+  samples: number;
+}
+
+// Chroma at the graticule edge, leaving room for the 100% bars (up to about 0.6 in Cb/Cr and 0.63 in U/V)
+const PLANE_EXTENT: Record<VectorscopePlane, number> = {
+  cbcr: 0.66,
+  uv: 0.7
+};
+
+// The I axis of NTSC, conventionally drawn as the flesh-tone line, in degrees counterclockwise from +Cb/+U
+export const SKIN_TONE_ANGLE = 123;
+
+// Images are sampled on a regular stride above this many pixels, so slider drags stay interactive
+const MAX_VECTORSCOPE_SAMPLES = 250000;
+
+// Bars in the order of the classic graticule, counterclockwise from red
+const COLOR_BARS: { label: string; rgb: RGBColor }[] = [
+  { label: 'R', rgb: { r: 1, g: 0, b: 0 } },
+  { label: 'Mg', rgb: { r: 1, g: 0, b: 1 } },
+  { label: 'B', rgb: { r: 0, g: 0, b: 1 } },
+  { label: 'Cy', rgb: { r: 0, g: 1, b: 1 } },
+  { label: 'G', rgb: { r: 0, g: 1, b: 0 } },
+  { label: 'Yl', rgb: { r: 1, g: 1, b: 0 } }
+];
+
+// Position of a color on the plane. Cb/Cr follows the configured matrix; the range does not
+// matter here, so chroma is always measured on the full +-0.5 scale.
+export function vectorscopePoint(
+  rgb: RGBColor,
+  plane: VectorscopePlane,
+  settings: ConversionSettings = defaultConversionSettings
+): VectorscopePoint {
+  const extent = PLANE_EXTENT[plane];
+  if (plane === 'uv') {
+    const yuv = rgbToYuv(rgb);
+    return { x: (yuv.u / 255 - 0.5) / extent, y: (yuv.v / 255 - 0.5) / extent };
+  }
+  const ycbcr = rgbToYcbcr(rgb, { ...settings, ycbcrRange: 'full' });
+  return { x: (ycbcr.cb - 128) / 255 / extent, y: (ycbcr.cr - 128) / 255 / extent };
+}
+
+// 75% and 100% color bar targets for the plane
+export function vectorscopeTargets(
+  plane: VectorscopePlane,
+  settings: ConversionSettings = defaultConversionSettings
+): VectorscopeTarget[] {
+  return ([75, 100] as const).flatMap(level =>
+    COLOR_BARS.map(({ label, rgb }) => {
+      const scaled = { r: rgb.r * level * 2.55, g: rgb.g * level * 2.55, b: rgb.b * level * 2.55 };
+      return { label, rgb: scaled, level, ...vectorscopePoint(scaled, plane, settings) };
+    })
+  );
+}
+
+// Pixel counts per cell of a size x size grid over the graticule square. Chroma outside it is dropped.
+export function vectorscopeDensity(
+  image: ImageData,
+  plane: VectorscopePlane,
+  settings: ConversionSettings = defaultConversionSettings,
+  size = 256
+): VectorscopeDensity {
+  const counts = new Uint32Array(size * size);
+  const colors = new Float64Array(size * size * 3);
+  const pixelCount = image.width * image.height;
+  const stride = Math.max(1, Math.ceil(pixelCount / MAX_VECTORSCOPE_SAMPLES));
+  let maxCount = 0;
+  let samples = 0;
+
+  for (let pixel = 0; pixel < pixelCount; pixel += stride) {
+    const i = pixel * 4;
+    const rgb = { r: image.data[i], g: image.data[i + 1], b: image.data[i + 2] };
+    const point = vectorscopePoint(rgb, plane, settings);
+    samples++;
+
+    const column = Math.floor((point.x + 1) / 2 * size);
+    const row = Math.floor((1 - point.y) / 2 * size);
+    if (column < 0 || column >= size || row < 0 || row >= size) continue;
+
+    const cell = row * size + column;
+    counts[cell]++;
+    colors[cell * 3] += rgb.r;
+    colors[cell * 3 + 1] += rgb.g;
+    colors[cell * 3 + 2] += rgb.b;
+    maxCount = Math.max(maxCount, counts[cell]);
+  }
+
+  return { size, counts, colors, maxCount, samples };
+}
+
+// Density as an image: brightness follows log(count), either as scope green or in the cells' mean color
+export function renderVectorscope(density: VectorscopeDensity, colorize: boolean): ImageData {
+  const { size, counts, colors, maxCount } = density;
+  const image = new ImageData(size, size);
+  const logMax = Math.log1p(maxCount) || 1;
+
+  for (let cell = 0; cell < counts.length; cell++) {
+    const count = counts[cell];
+    if (count === 0) continue;
+    const intensity = Math.log1p(count) / logMax;
+    const i = cell * 4;
+
+    if (colorize) {
+      // Mean color brightened so dark pixels stay visible
+      const r = colors[cell * 3] / count;
+      const g = colors[cell * 3 + 1] / count;
+      const b = colors[cell * 3 + 2] / count;
+      const gain = 255 / Math.max(r, g, b, 1);
+      image.data[i] = r * gain;
+      image.data[i + 1] = g * gain;
+      image.data[i + 2] = b * gain;
+    } else {
+      image.data[i] = 120 * intensity;
+      image.data[i + 1] = 255;
+      image.data[i + 2] = 120 * intensity;
+    }
+    image.data[i + 3] = 64 + 191 * intensity;
+  }
+  return image;
+}
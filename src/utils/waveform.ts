@@ -0,0 +1,159 @@
+// Waveform monitor and parades: signal level against horizontal image position, as on a video scope.
+// The pixels are read as 8-bit video code values; with a limited range, levels outside 16-235
+// (16-240 for chroma) are illegal, and 0 IRE is code 16 rather than 0.
+
+import { ConversionSettings, RGBColor, YCbCrRange, defaultConversionSettings, rgbToYcbcr } from './colorConversions';
+
+export type WaveformMode = 'luma' | 'rgb' | 'ycbcr';
+
+export interface WaveformTrace {
+  label: string;
+  // Phosphor color of the trace
+  color: RGBColor;
+  // Legal code values, inclusive
+  legalMin: number;
+  legalMax: number;
+  // WAVEFORM_LEVELS rows per column, row 0 at code 0
+  counts: Uint32Array;
+  // Samples outside the legal range
+  illegal: number;
+}
+
+export interface Waveform {
+  columns: number;
+  // One trace for luma, three side by side for a parade
+  traces: WaveformTrace[];
+  maxCount: number;
+  samples: number;
+}
+
+export const WAVEFORM_LEVELS = 256;
+
+// Images are sampled on a regular row stride above this many pixels, so slider drags stay interactive
+const MAX_WAVEFORM_SAMPLES = 250000;
+
+const ILLEGAL_COLOR: RGBColor = { r: 255, g: 60, b: 200 };
+
+// Code values of black and white, and the chroma limits, for the range
+export function videoLevels(range: YCbCrRange): { black: number; white: number; chromaMin: number; chromaMax: number } {
+  return range === 'limited'
+    ? { black: 16, white: 235, chromaMin: 16, chromaMax: 240 }
+    : { black: 0, white: 255, chromaMin: 0, chromaMax: 255 };
+}
+
+// IRE units of a luma or RGB code value: 0 at black, 100 at white
+export function codeToIre(code: number, range: YCbCrRange): number {
+  const { black, white } = videoLevels(range);
+  return (code - black) / (white - black) * 100;
+}
+
+export function ireToCode(ire: number, range: YCbCrRange): number {
+  const { black, white } = videoLevels(range);
+  return black + ire / 100 * (white - black);
+}
+
+type SignalKey = 'r' | 'g' | 'b' | 'y' | 'cb' | 'cr';
+
+// Traces of the mode with the signal each one reads
+function traceSignals(mode: WaveformMode, range: YCbCrRange): (Omit<WaveformTrace, 'counts' | 'illegal'> & { key: SignalKey })[] {
+  const { black, white, chromaMin, chromaMax } = videoLevels(range);
+  const level = { legalMin: black, legalMax: white };
+  const chroma = { legalMin: chromaMin, legalMax: chromaMax };
+
+  switch (mode) {
+    case 'luma':
+      return [{ key: 'y', label: "Y'", color: { r: 140, g: 255, b: 140 }, ...level }];
+    case 'rgb':
+      return [
+        { key: 'r', label: 'R', color: { r: 255, g: 80, b: 80 }, ...level },
+        { key: 'g', label: 'G', color: { r: 80, g: 255, b: 80 }, ...level },
+        { key: 'b', label: 'B', color: { r: 90, g: 140, b: 255 }, ...level }
+      ];
+    case 'ycbcr':
+      return [
+        { key: 'y', label: "Y'", color: { r: 230, g: 230, b: 230 }, ...level },
+        { key: 'cb', label: 'Cb', color: { r: 90, g: 160, b: 255 }, ...chroma },
+        { key: 'cr', label: 'Cr', color: { r: 255, g: 110, b: 90 }, ...chroma }
+      ];
+  }
+}
+
+// Counts per column and code value for every trace of the mode; `columns` is per trace
+export function computeWaveform(
+  image: ImageData,
+  mode: WaveformMode,
+  settings: ConversionSettings = defaultConversionSettings,
+  columns = Math.min(image.width, 256)
+): Waveform {
+  const { width, height, data } = image;
+  const signals = traceSignals(mode, settings.ycbcrRange);
+  // The matrix is applied to the code values as they are, without remapping the range
+  const matrix = { ...settings, ycbcrRange: 'full' as const };
+  const needsYcbcr = mode !== 'rgb';
+  const traces: WaveformTrace[] = signals.map(({ label, color, legalMin, legalMax }) => ({
+    label,
+    color,
+    legalMin,
+    legalMax,
+    counts: new Uint32Array(columns * WAVEFORM_LEVELS),
+    illegal: 0
+  }));
+  const rowStride = Math.max(1, Math.ceil(width * height / MAX_WAVEFORM_SAMPLES));
+  let maxCount = 0;
+  let samples = 0;
+
+  const pixel: Record<SignalKey, number> = { r: 0, g: 0, b: 0, y: 0, cb: 0, cr: 0 };
+
+  for (let y = 0; y < height; y += rowStride) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      pixel.r = data[i];
+      pixel.g = data[i + 1];
+      pixel.b = data[i + 2];
+      if (needsYcbcr) {
+        const ycbcr = rgbToYcbcr(pixel, matrix);
+        pixel.y = ycbcr.y;
+        pixel.cb = ycbcr.cb;
+        pixel.cr = ycbcr.cr;
+      }
+      const column = Math.floor(x * columns / width);
+      samples++;
+
+      for (let index = 0; index < traces.length; index++) {
+        const trace = traces[index];
+        const value = pixel[signals[index].key];
+        const code = Math.max(0, Math.min(WAVEFORM_LEVELS - 1, Math.round(value)));
+        const count = ++trace.counts[column * WAVEFORM_LEVELS + code];
+        if (count > maxCount) maxCount = count;
+        if (value < trace.legalMin - 0.5 || value > trace.legalMax + 0.5) trace.illegal++;
+      }
+    }
+  }
+
+  return { columns, traces, maxCount, samples };
+}
+
+// Traces side by side, code 255 at the top; brightness follows log(count) like scope phosphor
+export function renderWaveform(waveform: Waveform, highlightIllegal: boolean): ImageData {
+  const { columns, traces, maxCount } = waveform;
+  const image = new ImageData(columns * traces.length, WAVEFORM_LEVELS);
+  const logMax = Math.log1p(maxCount) || 1;
+
+  traces.forEach((trace, index) => {
+    for (let column = 0; column < columns; column++) {
+      for (let code = 0; code < WAVEFORM_LEVELS; code++) {
+        const count = trace.counts[column * WAVEFORM_LEVELS + code];
+        if (count === 0) continue;
+        const intensity = Math.log1p(count) / logMax;
+        const illegal = code < trace.legalMin || code > trace.legalMax;
+        const color = highlightIllegal && illegal ? ILLEGAL_COLOR : trace.color;
+        const i = ((WAVEFORM_LEVELS - 1 - code) * image.width + index * columns + column) * 4;
+        image.data[i] = color.r;
+        image.data[i + 1] = color.g;
+        image.data[i + 2] = color.b;
+        image.data[i + 3] = 48 + 207 * intensity;
+      }
+    }
+  });
+  return image;
+}